@@ -0,0 +1,58 @@
+import { CliError, ExitCode } from "./errors";
+
+export interface ParsedArgs {
+  positionals: string[];
+  // true for flags that don't take a value.
+  flags: Record<string, string | true>;
+}
+
+// As in `--destination /video` or `--destination=/video`.
+const VALUE_FLAGS = ["config", "destination", "status", "emule"];
+const SWITCH_FLAGS = ["json", "help", "force-complete"];
+
+// Flags may appear anywhere. Everything after `--` is positional.
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    } else if (arg === "-h") {
+      flags.help = true;
+    } else if (arg.startsWith("--")) {
+      const equals = arg.indexOf("=");
+      const name = arg.slice(2, equals === -1 ? undefined : equals);
+      if (VALUE_FLAGS.includes(name)) {
+        const value = equals === -1 ? argv[++i] : arg.slice(equals + 1);
+        if (value == null) {
+          throw new CliError(`--${name} needs a value`, ExitCode.USAGE);
+        }
+        flags[name] = value;
+      } else if (SWITCH_FLAGS.includes(name) && equals === -1) {
+        flags[name] = true;
+      } else {
+        throw new CliError(`unknown option: ${arg}`, ExitCode.USAGE);
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { positionals, flags };
+}
+
+export function getStringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+export function parseOnOff(value: string, name: string): boolean {
+  if (value === "on" || value === "off") {
+    return value === "on";
+  } else {
+    throw new CliError(`${name} must be "on" or "off"`, ExitCode.USAGE);
+  }
+}
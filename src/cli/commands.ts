@@ -0,0 +1,515 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ApiClient, ConnectionFailure, isConnectionFailure } from "../client";
+import {
+  ALL_TASK_NORMAL_STATUSES,
+  DownloadStation,
+  DownloadStationInfoConfig,
+  DownloadStationTask,
+  DownloadStationTaskActionResponse,
+  DownloadStationTaskNormalStatus,
+  FileStation,
+  SessionName,
+  SynologyResponse,
+} from "../rest";
+import { iterateFolder, iterateShares, iterateTasks, SynologyFailureError } from "../helpers";
+import { getStringFlag, ParsedArgs, parseOnOff } from "./args";
+import { CliError, ExitCode, failureToError } from "./errors";
+import { formatBytes, formatJson, formatSpeed, formatTable, formatTime } from "./output";
+
+export interface CommandContext {
+  client: ApiClient;
+  // Whatever follows the command's name.
+  args: ParsedArgs;
+  json: boolean;
+  print: (text: string) => void;
+}
+
+export interface Command {
+  usage: string;
+  description: string;
+  session: SessionName;
+  // Resolves to the exit code if it isn't ExitCode.OK. Failures are thrown as CliErrors.
+  run: (context: CommandContext) => Promise<number | void>;
+}
+
+async function unwrap<T>(
+  api: string,
+  response: Promise<SynologyResponse<T> | ConnectionFailure>,
+): Promise<T> {
+  const result = await response;
+  if (isConnectionFailure(result) || !result.success) {
+    throw failureToError(api, result);
+  }
+  return result.data;
+}
+
+async function collect<T>(api: string, items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  try {
+    for await (const item of items) {
+      collected.push(item);
+    }
+  } catch (e) {
+    throw e instanceof SynologyFailureError ? failureToError(api, e.failure) : e;
+  }
+  return collected;
+}
+
+function requirePositionals(args: ParsedArgs, what: string) {
+  if (args.positionals.length === 0) {
+    throw new CliError(`missing ${what}`, ExitCode.USAGE);
+  }
+  return args.positionals;
+}
+
+// ------------------------------------------------------------------------- //
+//                                   Tasks                                   //
+// ------------------------------------------------------------------------- //
+
+function describeStatus(task: DownloadStationTask) {
+  return task.status === "error" && task.status_extra != null
+    ? `error (${task.status_extra.error_detail})`
+    : task.status;
+}
+
+function describeProgress(task: DownloadStationTask) {
+  const downloaded = task.additional?.transfer?.size_downloaded ?? 0;
+  return task.size > 0 ? `${Math.floor((downloaded / task.size) * 100)}%` : "-";
+}
+
+async function listTasks({ client, args, json, print }: CommandContext) {
+  const status = getStringFlag(args, "status");
+  if (
+    status != null &&
+    !ALL_TASK_NORMAL_STATUSES.includes(status as DownloadStationTaskNormalStatus)
+  ) {
+    throw new CliError(
+      `--status must be one of ${ALL_TASK_NORMAL_STATUSES.join(", ")}`,
+      ExitCode.USAGE,
+    );
+  }
+  const tasks = (
+    await collect(DownloadStation.Task.API_NAME, iterateTasks(client, { additional: ["transfer"] }))
+  ).filter((t) => status == null || t.status === (status as DownloadStationTaskNormalStatus));
+
+  if (json) {
+    print(formatJson(tasks));
+  } else {
+    print(
+      formatTable(
+        ["ID", "STATUS", "SIZE", "PROGRESS", "DOWN", "UP", "TITLE"],
+        tasks.map((t) => [
+          t.id,
+          describeStatus(t),
+          formatBytes(t.size),
+          describeProgress(t),
+          formatSpeed(t.additional?.transfer?.speed_download ?? 0),
+          formatSpeed(t.additional?.transfer?.speed_upload ?? 0),
+          t.title,
+        ]),
+      ),
+    );
+  }
+}
+
+// Anything that isn't a URL is taken to be a local .torrent or .nzb file. DSM only takes one file
+// per request, but any number of URLs.
+function isUri(value: string) {
+  return /^[a-z][a-z0-9+.-]*:/i.test(value) && !/^[a-z]:[\\/]/i.test(value);
+}
+
+async function addTasks({ client, args, json, print }: CommandContext) {
+  const inputs = requirePositionals(args, "URLs or files to download");
+  const destination = getStringFlag(args, "destination");
+  const uris = inputs.filter(isUri);
+  const files = inputs.filter((i) => !isUri(i));
+
+  const added: string[] = [];
+  try {
+    if (uris.length > 0) {
+      await unwrap(
+        DownloadStation.Task.API_NAME,
+        client.DownloadStation.Task.Create({ uri: uris, destination }),
+      );
+      added.push(...uris);
+    }
+    for (const file of files) {
+      let content: Buffer;
+      try {
+        content = await fs.readFile(file);
+      } catch (e) {
+        throw new CliError(`couldn't read ${file}: ${e.message}`, ExitCode.NOT_FOUND);
+      }
+      await unwrap(
+        DownloadStation.Task.API_NAME,
+        client.DownloadStation.Task.Create({
+          file: { content: new Blob([content]), filename: path.basename(file) },
+          destination,
+        }),
+      );
+      added.push(file);
+    }
+  } catch (e) {
+    // The tasks that were added stay added, so retrying everything would duplicate them.
+    if (json) {
+      print(formatJson({ added, failed: inputs.filter((i) => !added.includes(i)) }));
+    } else if (added.length > 0) {
+      print(`Added ${added.length} of ${inputs.length} task(s): ${added.join(", ")}`);
+    }
+    throw e;
+  }
+
+  print(json ? formatJson({ added, failed: [] }) : `Added ${added.length} task(s).`);
+}
+
+// Per-task failures are reported alongside the successes. The first of them determines the exit
+// code.
+function printTaskActionResults(
+  results: DownloadStationTaskActionResponse,
+  { json, print }: CommandContext,
+): number {
+  const failures = results.map((r) =>
+    r.error === 0
+      ? undefined
+      : failureToError(DownloadStation.Task.API_NAME, { success: false, error: { code: r.error } }),
+  );
+  if (json) {
+    print(formatJson(results));
+  } else {
+    print(
+      formatTable(
+        ["ID", "RESULT"],
+        results.map((r, i) => [r.id, failures[i]?.message ?? "ok"]),
+      ),
+    );
+  }
+  return failures.find((f) => f != null)?.exitCode ?? ExitCode.OK;
+}
+
+function makeTaskAction(
+  description: string,
+  usage: string,
+  act: (
+    client: ApiClient,
+    id: string[],
+    args: ParsedArgs,
+  ) => Promise<SynologyResponse<DownloadStationTaskActionResponse> | ConnectionFailure>,
+): Command {
+  return {
+    usage,
+    description,
+    session: "DownloadStation",
+    run: async (context) => {
+      const id = requirePositionals(context.args, "task IDs");
+      const results = await unwrap(
+        DownloadStation.Task.API_NAME,
+        act(context.client, id, context.args),
+      );
+      return printTaskActionResults(results, context);
+    },
+  };
+}
+
+// ------------------------------------------------------------------------- //
+//                        Statistics, config, schedule                       //
+// ------------------------------------------------------------------------- //
+
+async function showStats({ client, json, print }: CommandContext) {
+  const stats = await unwrap(
+    DownloadStation.Statistic.API_NAME,
+    client.DownloadStation.Statistic.GetInfo(),
+  );
+  if (json) {
+    print(formatJson(stats));
+  } else {
+    print(
+      formatTable(
+        ["", "DOWN", "UP"],
+        [
+          ["total", formatSpeed(stats.speed_download), formatSpeed(stats.speed_upload)],
+          ...(stats.emule_speed_download != null
+            ? [
+                [
+                  "emule",
+                  formatSpeed(stats.emule_speed_download),
+                  formatSpeed(stats.emule_speed_upload ?? 0),
+                ],
+              ]
+            : []),
+        ],
+      ),
+    );
+  }
+}
+
+const CONFIG_KEY_TYPES: Record<keyof DownloadStationInfoConfig, "number" | "boolean" | "string"> = {
+  bt_max_download: "number",
+  bt_max_upload: "number",
+  emule_max_download: "number",
+  emule_max_upload: "number",
+  nzb_max_download: "number",
+  http_max_download: "number",
+  ftp_max_download: "number",
+  emule_enabled: "boolean",
+  unzip_service_enabled: "boolean",
+  default_destination: "string",
+  emule_default_destination: "string",
+};
+
+function isConfigKey(key: string): key is keyof DownloadStationInfoConfig {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEY_TYPES, key);
+}
+
+function parseConfigAssignment(assignment: string): Partial<DownloadStationInfoConfig> {
+  const equals = assignment.indexOf("=");
+  const key = assignment.slice(0, equals);
+  const value = assignment.slice(equals + 1);
+  if (equals === -1 || !isConfigKey(key)) {
+    throw new CliError(
+      `expected key=value, where key is one of ${Object.keys(CONFIG_KEY_TYPES).join(", ")}`,
+      ExitCode.USAGE,
+    );
+  }
+  switch (CONFIG_KEY_TYPES[key]) {
+    case "number":
+      if (value.trim() === "" || isNaN(+value)) {
+        throw new CliError(`${key} must be a number`, ExitCode.USAGE);
+      }
+      return { [key]: +value };
+    case "boolean":
+      if (value !== "true" && value !== "false") {
+        throw new CliError(`${key} must be true or false`, ExitCode.USAGE);
+      }
+      return { [key]: value === "true" };
+    case "string":
+      return { [key]: value };
+  }
+}
+
+async function getConfig({ client, args, json, print }: CommandContext) {
+  const config = await unwrap(
+    DownloadStation.Info.API_NAME,
+    client.DownloadStation.Info.GetConfig(),
+  );
+  const keys = args.positionals.length > 0 ? args.positionals : Object.keys(CONFIG_KEY_TYPES);
+  const unknown = keys.find((k) => !isConfigKey(k));
+  if (unknown != null) {
+    throw new CliError(`unknown config key: ${unknown}`, ExitCode.USAGE);
+  }
+  const selected = keys.filter(isConfigKey).map((k) => [k, config[k]] as const);
+
+  if (json) {
+    print(formatJson(Object.fromEntries(selected)));
+  } else if (args.positionals.length === 1) {
+    // Just the value, for scripts.
+    print(String(selected[0][1]));
+  } else {
+    print(
+      formatTable(
+        ["KEY", "VALUE"],
+        selected.map(([k, v]) => [k, String(v)]),
+      ),
+    );
+  }
+}
+
+async function setConfig({ client, args, json, print }: CommandContext) {
+  const changes = requirePositionals(args, "key=value settings").reduce<
+    Partial<DownloadStationInfoConfig>
+  >((changes, assignment) => ({ ...changes, ...parseConfigAssignment(assignment) }), {});
+  await unwrap(DownloadStation.Info.API_NAME, client.DownloadStation.Info.SetServerConfig(changes));
+  print(json ? formatJson(changes) : `Updated ${Object.keys(changes).join(", ")}.`);
+}
+
+// With no arguments, shows whether the schedule is on. With "on" or "off", changes it.
+async function schedule({ client, args, json, print }: CommandContext) {
+  const [state] = args.positionals;
+  const emule = getStringFlag(args, "emule");
+  if (state != null || emule != null) {
+    await unwrap(
+      DownloadStation.Schedule.API_NAME,
+      client.DownloadStation.Schedule.SetConfig({
+        enabled: state != null ? parseOnOff(state, "the schedule") : undefined,
+        emule_enabled: emule != null ? parseOnOff(emule, "--emule") : undefined,
+      }),
+    );
+  }
+  const config = await unwrap(
+    DownloadStation.Schedule.API_NAME,
+    client.DownloadStation.Schedule.GetConfig(),
+  );
+  if (json) {
+    print(formatJson(config));
+  } else {
+    print(
+      formatTable(
+        ["SCHEDULE", "EMULE"],
+        [[config.enabled ? "on" : "off", config.emule_enabled ? "on" : "off"]],
+      ),
+    );
+  }
+}
+
+// ------------------------------------------------------------------------- //
+//                                FileStation                                //
+// ------------------------------------------------------------------------- //
+
+async function listFolder({ client, args, json, print }: CommandContext) {
+  const [folder] = requirePositionals(args, "folder path");
+  const files = await collect(
+    FileStation.List.API_NAME,
+    iterateFolder(client, { folder_path: folder, additional: ["size", "time"] }),
+  );
+  if (json) {
+    print(formatJson(files));
+  } else {
+    print(
+      formatTable(
+        ["TYPE", "SIZE", "MODIFIED", "NAME"],
+        files.map((f) => [
+          f.isdir ? "dir" : "file",
+          f.isdir ? "-" : formatBytes(f.additional?.size ?? 0),
+          formatTime(f.additional?.time?.mtime),
+          f.name,
+        ]),
+      ),
+    );
+  }
+}
+
+async function showFileInfo({ client, args, json, print }: CommandContext) {
+  const paths = requirePositionals(args, "paths");
+  const { files } = await unwrap(
+    FileStation.List.API_NAME,
+    client.FileStation.List.getinfo({ path: paths, additional: ["size", "time", "owner"] }),
+  );
+  if (json) {
+    print(formatJson(files));
+  } else {
+    print(
+      formatTable(
+        ["TYPE", "SIZE", "OWNER", "MODIFIED", "PATH"],
+        files.map((f) => [
+          f.isdir ? "dir" : "file",
+          f.isdir ? "-" : formatBytes(f.additional?.size ?? 0),
+          f.additional?.owner?.user ?? "-",
+          formatTime(f.additional?.time?.mtime),
+          f.path,
+        ]),
+      ),
+    );
+  }
+}
+
+async function listShares({ client, json, print }: CommandContext) {
+  const shares = await collect(
+    FileStation.List.API_NAME,
+    iterateShares(client, { additional: ["volume_status"] }),
+  );
+  if (json) {
+    print(formatJson(shares));
+  } else {
+    print(
+      formatTable(
+        ["FREE", "TOTAL", "PATH"],
+        shares.map((s) => {
+          const volume = s.additional?.volume_status;
+          return [
+            volume != null ? formatBytes(volume.freespace) : "-",
+            volume != null ? formatBytes(volume.totalspace) : "-",
+            s.path,
+          ];
+        }),
+      ),
+    );
+  }
+}
+
+// ------------------------------------------------------------------------- //
+//                                  exports                                  //
+// ------------------------------------------------------------------------- //
+
+// Keyed by the words that select the command.
+export const COMMANDS: Record<string, Command> = {
+  "tasks list": {
+    usage: "tasks list [--status <status>]",
+    description: "List download tasks",
+    session: "DownloadStation",
+    run: listTasks,
+  },
+  "tasks add": {
+    usage: "tasks add <url or file>... [--destination <folder>]",
+    description: "Add download tasks from URLs or .torrent/.nzb files",
+    session: "DownloadStation",
+    run: addTasks,
+  },
+  "tasks pause": makeTaskAction("Pause tasks", "tasks pause <id>...", (client, id) =>
+    client.DownloadStation.Task.Pause({ id }),
+  ),
+  "tasks resume": makeTaskAction("Resume tasks", "tasks resume <id>...", (client, id) =>
+    client.DownloadStation.Task.Resume({ id }),
+  ),
+  "tasks delete": makeTaskAction(
+    "Delete tasks, optionally moving what's downloaded so far to the destination",
+    "tasks delete <id>... [--force-complete]",
+    (client, id, args) =>
+      client.DownloadStation.Task.Delete({
+        id,
+        force_complete: args.flags["force-complete"] === true,
+      }),
+  ),
+  "tasks edit": makeTaskAction(
+    "Change the destination of tasks",
+    "tasks edit <id>... --destination <folder>",
+    (client, id, args) => {
+      const destination = getStringFlag(args, "destination");
+      if (destination == null) {
+        throw new CliError("missing --destination", ExitCode.USAGE);
+      }
+      return client.DownloadStation.Task.Edit({ id, destination });
+    },
+  ),
+  stats: {
+    usage: "stats",
+    description: "Show total download and upload speeds",
+    session: "DownloadStation",
+    run: showStats,
+  },
+  "config get": {
+    usage: "config get [<key>...]",
+    description: "Show DownloadStation settings",
+    session: "DownloadStation",
+    run: getConfig,
+  },
+  "config set": {
+    usage: "config set <key>=<value>...",
+    description: "Change DownloadStation settings",
+    session: "DownloadStation",
+    run: setConfig,
+  },
+  schedule: {
+    usage: "schedule [on|off] [--emule on|off]",
+    description: "Show or change whether downloads follow the schedule",
+    session: "DownloadStation",
+    run: schedule,
+  },
+  "fs ls": {
+    usage: "fs ls <folder>",
+    description: "List a folder",
+    session: "FileStation",
+    run: listFolder,
+  },
+  "fs info": {
+    usage: "fs info <path>...",
+    description: "Show details of files and folders",
+    session: "FileStation",
+    run: showFileInfo,
+  },
+  "fs shares": {
+    usage: "fs shares",
+    description: "List shared folders",
+    session: "FileStation",
+    run: listShares,
+  },
+};
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Schema, SchemaIssue } from "../rest/schema";
+import { CliError, ExitCode } from "./errors";
+
+export interface CliConfig {
+  // e.g. "https://diskstation.local:5001".
+  url: string;
+  account: string;
+  passwd: string;
+  // Printed after logging in with a one-time code. Lets later logins skip 2-step verification.
+  deviceId?: string;
+  // Path to a PEM file with the certificate authority that signed the NAS's certificate.
+  ca?: string;
+  // Accept any certificate whatsoever. Prefer `ca`.
+  insecure?: boolean;
+}
+
+const CONFIG_FILE_SCHEMA = Schema.object<Partial<CliConfig>>({
+  url: Schema.optional(Schema.string()),
+  account: Schema.optional(Schema.string()),
+  passwd: Schema.optional(Schema.string()),
+  deviceId: Schema.optional(Schema.string()),
+  ca: Schema.optional(Schema.string()),
+  insecure: Schema.optional(Schema.boolean()),
+});
+
+function defaultConfigPath(env: NodeJS.ProcessEnv) {
+  return path.join(
+    env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+    "synology",
+    "config.json",
+  );
+}
+
+async function readConfigFile(
+  configPath: string,
+  isExplicit: boolean,
+): Promise<Partial<CliConfig>> {
+  let serialized: string;
+  try {
+    serialized = await fs.readFile(configPath, "utf8");
+  } catch (e) {
+    // It's fine not to have a config file at all, as long as the environment has everything.
+    if (e.code === "ENOENT" && !isExplicit) {
+      return {};
+    }
+    throw new CliError(`couldn't read ${configPath}: ${e.message}`, ExitCode.USAGE);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(serialized);
+  } catch (e) {
+    throw new CliError(`${configPath} isn't valid JSON: ${e.message}`, ExitCode.USAGE);
+  }
+  const issues: SchemaIssue[] = [];
+  const config = CONFIG_FILE_SCHEMA.parse(json, "", issues);
+  if (issues.length > 0) {
+    const { path: key, expected, received } = issues[0];
+    throw new CliError(
+      `${configPath}: expected ${key || "the file"} to be ${expected}, not ${received}`,
+      ExitCode.USAGE,
+    );
+  }
+  return config;
+}
+
+// The file is `configPath`, else $SYNOLOGY_CONFIG, else $XDG_CONFIG_HOME/synology/config.json. The
+// SYNOLOGY_URL, SYNOLOGY_ACCOUNT, SYNOLOGY_PASSWORD and SYNOLOGY_DEVICE_ID environment variables
+// override it.
+export async function loadConfig(
+  configPath: string | undefined,
+  env: NodeJS.ProcessEnv,
+): Promise<CliConfig> {
+  const explicitPath = configPath ?? env.SYNOLOGY_CONFIG;
+  const file = await readConfigFile(explicitPath ?? defaultConfigPath(env), explicitPath != null);
+  const config = {
+    ...file,
+    url: env.SYNOLOGY_URL || file.url,
+    account: env.SYNOLOGY_ACCOUNT || file.account,
+    passwd: env.SYNOLOGY_PASSWORD || file.passwd,
+    deviceId: env.SYNOLOGY_DEVICE_ID || file.deviceId,
+  };
+
+  const missing = [
+    config.url == null ? "SYNOLOGY_URL" : undefined,
+    config.account == null ? "SYNOLOGY_ACCOUNT" : undefined,
+    config.passwd == null ? "SYNOLOGY_PASSWORD" : undefined,
+  ].filter((name) => name != null);
+  if (missing.length > 0) {
+    throw new CliError(
+      `missing ${missing.join(", ")}; set them or put them in a config file`,
+      ExitCode.USAGE,
+    );
+  }
+  return config as CliConfig;
+}
@@ -0,0 +1,93 @@
+import type { ConnectionFailure } from "../client";
+import { describeError, SynologyErrorKind, SynologyFailureResponse } from "../rest";
+
+// Scripts rely on these, so don't renumber them. See the README.
+export const ExitCode = {
+  OK: 0,
+  // Anything that doesn't fit one of the categories below.
+  FAILURE: 1,
+  // Bad arguments or missing configuration.
+  USAGE: 2,
+  // The NAS couldn't be reached or didn't respond in time.
+  CONNECTION: 3,
+  LOGIN: 4,
+  PERMISSION: 5,
+  NOT_FOUND: 6,
+  // The NAS says to try again later.
+  BUSY: 7,
+  // The NAS doesn't have the API or version the command needs.
+  UNSUPPORTED: 8,
+} as const;
+
+export class CliError extends Error {
+  constructor(message: string, public exitCode: number) {
+    super(message);
+  }
+}
+
+// By SynologyErrorKind. Kinds that aren't listed are ExitCode.FAILURE.
+const EXIT_CODES_BY_KIND: Partial<Record<SynologyErrorKind, number>> = {
+  "no-permission": ExitCode.PERMISSION,
+  "permission-denied": ExitCode.PERMISSION,
+  "operation-not-permitted": ExitCode.PERMISSION,
+  "destination-denied": ExitCode.PERMISSION,
+  "no-such-task": ExitCode.NOT_FOUND,
+  "invalid-task-id": ExitCode.NOT_FOUND,
+  "no-such-file": ExitCode.NOT_FOUND,
+  "file-not-exist": ExitCode.NOT_FOUND,
+  "destination-not-exist": ExitCode.NOT_FOUND,
+  "no-such-link": ExitCode.NOT_FOUND,
+  "system-busy": ExitCode.BUSY,
+  "device-busy": ExitCode.BUSY,
+  "no-such-api": ExitCode.UNSUPPORTED,
+  "no-such-method": ExitCode.UNSUPPORTED,
+  "unsupported-version": ExitCode.UNSUPPORTED,
+  "invalid-parameter": ExitCode.USAGE,
+  "missing-parameter": ExitCode.USAGE,
+};
+
+function connectionFailureToError(failure: ConnectionFailure): CliError {
+  switch (failure.type) {
+    case "missing-config":
+      return new CliError("missing configuration", ExitCode.USAGE);
+    case "unsupported-api":
+      return new CliError(`the NAS doesn't support ${failure.api}`, ExitCode.UNSUPPORTED);
+    case "otp-required":
+      return new CliError(
+        "2-step verification code required; set SYNOLOGY_OTP_CODE",
+        ExitCode.LOGIN,
+      );
+    case "cancelled":
+      return new CliError("cancelled", ExitCode.FAILURE);
+    case "malformed-response":
+      return new CliError(
+        `unexpected response from ${failure.api} ${failure.method}`,
+        ExitCode.FAILURE,
+      );
+    case "probable-wrong-protocol":
+      return new CliError("bad response from the NAS; check http vs. https", ExitCode.CONNECTION);
+    case "probable-wrong-url-or-no-connection-or-cert-error":
+      return new CliError(
+        "couldn't reach the NAS; check the URL, the connection and the certificate",
+        ExitCode.CONNECTION,
+      );
+    case "timeout":
+      return new CliError("timed out waiting for the NAS", ExitCode.CONNECTION);
+    case "unknown":
+      return new CliError(String(failure.error), ExitCode.FAILURE);
+  }
+}
+
+// `api` is the API_NAME of the namespace the failed call belongs to, since codes mean different
+// things for different APIs.
+export function failureToError(
+  api: string,
+  failure: SynologyFailureResponse | ConnectionFailure,
+): CliError {
+  if ("type" in failure) {
+    return connectionFailureToError(failure);
+  } else {
+    const { code, kind, message } = describeError(api, failure);
+    return new CliError(`${message} (error ${code})`, EXIT_CODES_BY_KIND[kind] ?? ExitCode.FAILURE);
+  }
+}
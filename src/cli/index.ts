@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { main } from "./main";
+
+main(process.argv.slice(2), {
+  stdout: (text) => {
+    process.stdout.write(`${text}\n`);
+  },
+  stderr: (text) => {
+    process.stderr.write(`${text}\n`);
+  },
+}).then((exitCode) => {
+  process.exitCode = exitCode;
+});
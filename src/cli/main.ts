@@ -0,0 +1,132 @@
+import { promises as fs } from "fs";
+import { ApiClient, isConnectionFailure } from "../client";
+import { Auth } from "../rest";
+import { createNodeTransport } from "../node";
+import { parseArgs, getStringFlag, ParsedArgs } from "./args";
+import { Command, COMMANDS } from "./commands";
+import { loadConfig } from "./config";
+import { CliError, ExitCode, failureToError } from "./errors";
+import { formatTable } from "./output";
+
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const DEVICE_NAME = "synology-cli";
+
+function usage() {
+  return [
+    "Usage: synology <command> [--json] [--config <file>]",
+    "",
+    formatTable(
+      ["COMMAND", "DESCRIPTION"],
+      Object.values(COMMANDS).map((c) => [c.usage, c.description]),
+    ),
+    "",
+    "Credentials come from SYNOLOGY_URL, SYNOLOGY_ACCOUNT and SYNOLOGY_PASSWORD, or from a JSON",
+    'config file with "url", "account" and "passwd" (default: ~/.config/synology/config.json).',
+    "For 2-step verification, set SYNOLOGY_OTP_CODE.",
+  ].join("\n");
+}
+
+// The longest run of leading positionals that names a command, e.g. "tasks list".
+function findCommand(args: ParsedArgs): [Command, ParsedArgs] | undefined {
+  for (let words = 2; words > 0; words--) {
+    const command = COMMANDS[args.positionals.slice(0, words).join(" ")];
+    if (command != null && args.positionals.length >= words) {
+      return [command, { ...args, positionals: args.positionals.slice(words) }];
+    }
+  }
+  return undefined;
+}
+
+async function createClient(command: Command, args: ParsedArgs, env: NodeJS.ProcessEnv) {
+  const config = await loadConfig(getStringFlag(args, "config"), env);
+  let ca: Buffer | undefined;
+  if (config.ca != null) {
+    try {
+      ca = await fs.readFile(config.ca);
+    } catch (e) {
+      throw new CliError(`couldn't read ${config.ca}: ${e.message}`, ExitCode.USAGE);
+    }
+  }
+  let otpCode = env.SYNOLOGY_OTP_CODE;
+  return new ApiClient({
+    baseUrl: config.url,
+    account: config.account,
+    passwd: config.passwd,
+    session: command.session,
+    deviceId: config.deviceId,
+    deviceName: DEVICE_NAME,
+    transport: createNodeTransport({ ca, rejectUnauthorized: !config.insecure }),
+    // A code is only good once, so don't offer it again if it's rejected.
+    requestOtpCode: async () => {
+      const code = otpCode;
+      otpCode = undefined;
+      return code;
+    },
+  });
+}
+
+// Logging in up front means that login failures get their own exit code, rather than being
+// mistaken for failures of the command's own API.
+async function login(client: ApiClient, io: CliIo) {
+  const configuredDeviceId = client.deviceId;
+  const response = await client.Auth.Login();
+  if (isConnectionFailure(response)) {
+    throw failureToError(Auth.API_NAME, response);
+  } else if (!response.success) {
+    throw new CliError(failureToError(Auth.API_NAME, response).message, ExitCode.LOGIN);
+  } else if (client.deviceId != null && client.deviceId !== configuredDeviceId) {
+    io.stderr(
+      `synology: to skip 2-step verification next time, set SYNOLOGY_DEVICE_ID=${client.deviceId}`,
+    );
+  }
+}
+
+export async function main(
+  argv: string[],
+  io: CliIo,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<number> {
+  try {
+    const args = parseArgs(argv);
+    const found = findCommand(args);
+    if (args.flags.help === true) {
+      io.stdout(usage());
+      return ExitCode.OK;
+    } else if (args.positionals.length === 0) {
+      io.stderr(usage());
+      return ExitCode.USAGE;
+    } else if (found == null) {
+      throw new CliError(
+        `unknown command: ${args.positionals.join(" ")}; see synology --help`,
+        ExitCode.USAGE,
+      );
+    }
+
+    const [command, commandArgs] = found;
+    const client = await createClient(command, args, env);
+    await login(client, io);
+    try {
+      const exitCode = await command.run({
+        client,
+        args: commandArgs,
+        json: args.flags.json === true,
+        print: io.stdout,
+      });
+      return typeof exitCode === "number" ? exitCode : ExitCode.OK;
+    } finally {
+      await client.Auth.Logout();
+    }
+  } catch (e) {
+    if (e instanceof CliError) {
+      io.stderr(`synology: ${e.message}`);
+      return e.exitCode;
+    } else {
+      io.stderr(`synology: ${e instanceof Error ? e.stack : String(e)}`);
+      return ExitCode.FAILURE;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB", "PB"];
+
+export function formatBytes(bytes: number) {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+}
+
+export function formatSpeed(bytesPerSecond: number) {
+  return `${formatBytes(bytesPerSecond)}/s`;
+}
+
+// Seconds since the epoch, as DSM reports them.
+export function formatTime(seconds: number | undefined) {
+  if (seconds == null || seconds === 0) {
+    return "-";
+  }
+  const iso = new Date(seconds * 1000).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)}`;
+}
+
+// Left-aligned columns separated by two spaces. The last column isn't padded.
+export function formatTable(headers: string[], rows: string[][]) {
+  const widths = headers.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i])))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
+
+export function formatJson(value: unknown) {
+  return JSON.stringify(value, null, 2);
+}
@@ -3,38 +3,145 @@ import {
   AuthLoginResponse,
   DownloadStation,
   DownloadStation2,
+  Entry,
+  BatchCall,
+  BatchResults,
+  EntryBatchRequest,
+  RequestCoalescer,
   FileStation,
   Info,
+  InfoQueryResponse,
+  negotiateApi,
   SynologyResponse,
   SessionName,
   SynologyFailureResponse,
 } from "./rest";
-import { BaseRequest, BadResponseError, TimeoutError, NetworkError } from "./rest/shared";
+import {
+  BaseRequest,
+  BadResponseError,
+  CancelledError,
+  TimeoutError,
+  NetworkError,
+  UnsupportedApiError,
+  ApiResolver,
+  ApiVersionRange,
+  MalformedResponseError,
+  RequestContext,
+  RequestInterceptor,
+  SynologyApiRequest,
+  abortable,
+  runInterceptors,
+} from "./rest/shared";
+import type { SchemaIssue } from "./rest/schema";
+import type { Transport } from "./rest/transport";
+import type { SessionStore } from "./sessionStore";
+import { RequestQueue } from "./requestQueue";
+import { Emitter, sleep } from "./helpers/shared";
+
+// Codes that mean the session is no good and it's time to log in again.
+const SESSION_ERROR_CODES = [105, 106, 107, 119];
+// Codes that mean the NAS is having trouble that may well pass.
+const TRANSIENT_ERROR_CODES = [109, 110, 111, 117, 118];
+const OTP_REQUIRED_ERROR_CODE = 403;
+const OTP_FAILED_ERROR_CODE = 404;
 
-const NO_PERMISSIONS_ERROR_CODE = 105;
-const SESSION_TIMEOUT_ERROR_CODE = 106;
+// Called when logging in needs a code from the account's authenticator app. "otp-failed" means the
+// previous code was rejected. Resolve to undefined to give up, which fails the login with an
+// "otp-required" ConnectionFailure.
+export type OtpCodeProvider = (
+  reason: "otp-required" | "otp-failed",
+) => Promise<string | undefined>;
 
 export interface ApiClientSettings {
   baseUrl: string;
   account: string;
   passwd: string;
   session: SessionName;
+  transport?: Transport;
+  requestOtpCode?: OtpCodeProvider;
+  // If set, logins that need an OTP code also register this device as trusted under this name. See
+  // ApiClient#deviceId.
+  deviceName?: string;
+  // A device token from an earlier login, which lets this device skip the OTP.
+  deviceId?: string;
+  // If set, the session is saved here after logging in and reused from here instead of logging in,
+  // as long as it belongs to the same baseUrl/account/session.
+  sessionStore?: SessionStore;
+  // Send calls made in the same tick as a single SYNO.Entry.Request. See RequestCoalescer.
+  autoBatch?: boolean;
+  // Can be overridden for individual calls with the `retry` field of any request.
+  retry?: RetryPolicy;
+  // How many calls may be waiting on the NAS at once. The rest wait their turn, in order of their
+  // `queuePriority`. Defaults to 6; anything less than 1 is treated as 1.
+  maxConcurrentRequests?: number;
+  // Fail calls whose responses don't match the shape this library expects with a
+  // "malformed-response" ConnectionFailure, rather than passing them through.
+  strictResponses?: boolean;
+  // Wrap every request sent to the NAS, outermost first. See RequestInterceptor.
+  requestInterceptors?: RequestInterceptor[];
+  // Wrap every call made through the client, outermost first. See CallInterceptor.
+  callInterceptors?: CallInterceptor[];
 }
 
-const SETTING_NAME_KEYS = (function () {
-  const _settingNames: Record<keyof ApiClientSettings, true> = {
+// Changing any of these means a new session. The rest only affect what's done with it.
+const SESSION_SETTING_NAME_KEYS: (keyof ApiClientSettings)[] = [
+  "baseUrl",
+  "account",
+  "passwd",
+  "session",
+  "transport",
+];
+
+const { REQUIRED_SETTING_NAME_KEYS } = (function () {
+  // true for settings that must be provided before the client will make any requests.
+  const _settingNames: Record<keyof ApiClientSettings, boolean> = {
     baseUrl: true,
     account: true,
     passwd: true,
     session: true,
+    transport: false,
+    requestOtpCode: false,
+    deviceName: false,
+    deviceId: false,
+    sessionStore: false,
+    autoBatch: false,
+    retry: false,
+    maxConcurrentRequests: false,
+    strictResponses: false,
+    requestInterceptors: false,
+    callInterceptors: false,
+  };
+  const keys = Object.keys(_settingNames) as (keyof ApiClientSettings)[];
+  return {
+    REQUIRED_SETTING_NAME_KEYS: keys.filter((k) => _settingNames[k]),
   };
-  return Object.keys(_settingNames) as (keyof ApiClientSettings)[];
 })();
 
 export type ConnectionFailure =
   | {
       type: "missing-config";
     }
+  | {
+      type: "unsupported-api";
+      api: string;
+    }
+  | {
+      // The account has 2-step verification enabled and no code was provided, or the last one was
+      // rejected. Never retried automatically.
+      type: "otp-required";
+      failure: SynologyFailureResponse;
+    }
+  | {
+      // The call's signal aborted. Never retried.
+      type: "cancelled";
+    }
+  | {
+      // Only with the strictResponses setting. Never retried.
+      type: "malformed-response";
+      api: string;
+      method: string;
+      issues: SchemaIssue[];
+    }
   | {
       type:
         | "probable-wrong-protocol"
@@ -46,7 +153,18 @@ export type ConnectionFailure =
 
 const ConnectionFailure = {
   from: (error: any): ConnectionFailure => {
-    if (error instanceof BadResponseError && error.response.status === 400) {
+    if (error instanceof CancelledError) {
+      return { type: "cancelled" };
+    } else if (error instanceof MalformedResponseError) {
+      return {
+        type: "malformed-response",
+        api: error.api,
+        method: error.method,
+        issues: error.issues,
+      };
+    } else if (error instanceof UnsupportedApiError) {
+      return { type: "unsupported-api", api: error.api };
+    } else if (error instanceof BadResponseError && error.response.status === 400) {
       return { type: "probable-wrong-protocol", error };
     } else if (error instanceof NetworkError) {
       return { type: "probable-wrong-url-or-no-connection-or-cert-error", error };
@@ -58,28 +176,228 @@ const ConnectionFailure = {
   },
 };
 
+export interface RetryableCall {
+  // False for calls that could have an effect twice if repeated, such as creating a task. Timeouts
+  // are ambiguous: the NAS may well have received and acted on the request.
+  idempotent: boolean;
+}
+
+export interface RetryPolicy {
+  // Including the first. 1 disables retrying. Defaults to 2.
+  maxAttempts?: number;
+  // Milliseconds to wait before the first retry, doubling for each retry after that, up to
+  // `maxDelay`. Each wait is randomly shortened by up to half. Defaults to 250 and 10000.
+  // Failures that only need a new session are retried immediately.
+  initialDelay?: number;
+  maxDelay?: number;
+  // Defaults to isRetryableFailure.
+  isRetryable?: (
+    failure: SynologyFailureResponse | ConnectionFailure,
+    call: RetryableCall,
+  ) => boolean;
+}
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 6;
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+const DEFAULT_INITIAL_RETRY_DELAY = 250;
+const DEFAULT_MAX_RETRY_DELAY = 10000;
+
+// Session failures, transient NAS trouble and connection problems are worth retrying, except for
+// timeouts and unknown errors on non-idempotent calls.
+export function isRetryableFailure(
+  failure: SynologyFailureResponse | ConnectionFailure,
+  call: RetryableCall,
+): boolean {
+  if (isConnectionFailure(failure)) {
+    switch (failure.type) {
+      case "probable-wrong-url-or-no-connection-or-cert-error":
+        return true;
+      case "timeout":
+      case "unknown":
+        return call.idempotent;
+      default:
+        return false;
+    }
+  } else {
+    return (
+      SESSION_ERROR_CODES.includes(failure.error.code) ||
+      TRANSIENT_ERROR_CODES.includes(failure.error.code)
+    );
+  }
+}
+
+function retryDelay(policy: RetryPolicy, attempt: number) {
+  const delay = Math.min(
+    (policy.initialDelay ?? DEFAULT_INITIAL_RETRY_DELAY) * 2 ** (attempt - 1),
+    policy.maxDelay ?? DEFAULT_MAX_RETRY_DELAY,
+  );
+  return delay / 2 + (Math.random() * delay) / 2;
+}
+
+// A call made through one of the client's methods, such as `client.DownloadStation.Task.List`.
+export interface ApiCall {
+  // Unique for the lifetime of the client. Matches the callId of the call's events.
+  readonly id: number;
+  options: unknown;
+  idempotent: boolean;
+}
+
+// Sees each call once, however many requests it takes: `next` covers logging in, waiting in the
+// queue and retrying. Thrown errors become "unknown" ConnectionFailures.
+export type CallInterceptor = (
+  call: ApiCall,
+  next: (call: ApiCall) => Promise<SynologyResponse<unknown> | ConnectionFailure>,
+) => Promise<SynologyResponse<unknown> | ConnectionFailure>;
+
+export type ApiClientEvent =
+  | {
+      // A request is about to be sent. `request` includes secrets such as the password and session
+      // ID; see redactRequest.
+      type: "request";
+      // The call that made the request (the first of them, for automatic batches), or undefined for
+      // the client's own logins, logouts and API discovery.
+      callId: number | undefined;
+      // Matches the requestId of the response.
+      requestId: number;
+      baseUrl: string;
+      request: SynologyApiRequest;
+    }
+  | {
+      type: "response";
+      callId: number | undefined;
+      requestId: number;
+      request: SynologyApiRequest;
+      // Milliseconds since the request.
+      duration: number;
+      response: SynologyResponse<unknown> | ConnectionFailure;
+    }
+  | {
+      // A call is being tried again.
+      type: "retry";
+      callId: number;
+      // The attempt that didn't work out, from 1.
+      attempt: number;
+      // "session-expired" retries right after logging in again, "failure" after `delay`
+      // milliseconds, and "settings-changed" starts the call over with the new settings.
+      reason: "session-expired" | "failure" | "settings-changed";
+      // undefined for "settings-changed".
+      failure: SynologyFailureResponse | ConnectionFailure | undefined;
+      delay: number;
+    }
+  | {
+      type: "login";
+      // True if the session came from the sessionStore rather than the NAS.
+      restored: boolean;
+      // Milliseconds, including any time spent waiting for an OTP code.
+      duration: number;
+      response: SynologyResponse<AuthLoginResponse> | ConnectionFailure;
+    }
+  | {
+      type: "logout";
+      duration: number;
+      response: SynologyResponse<{}> | ConnectionFailure;
+    };
+
+export type ApiClientEventType = ApiClientEvent["type"];
+
+export type ApiClientListener<T extends ApiClientEventType> = (
+  event: Extract<ApiClientEvent, { type: T }>,
+) => void;
+
+interface ProxyOptions {
+  // Defaults to true.
+  idempotent?: boolean;
+}
+
 export function isConnectionFailure(
-  result: SynologyResponse<{}> | ConnectionFailure,
+  result: SynologyResponse<unknown> | ConnectionFailure,
 ): result is ConnectionFailure {
   return (
-    (result as ConnectionFailure).type != null && (result as SynologyResponse<{}>).success == null
+    (result as ConnectionFailure).type != null &&
+    (result as SynologyResponse<unknown>).success == null
   );
 }
 
+async function resolveFromApiInfo(
+  apiInfo: Promise<InfoQueryResponse | undefined> | undefined,
+  api: string,
+  versions: ApiVersionRange,
+) {
+  const info = await apiInfo;
+  if (info == null) {
+    return undefined;
+  }
+  const resolved = negotiateApi(info, api, versions);
+  if (resolved == null) {
+    throw new UnsupportedApiError(api);
+  }
+  return resolved;
+}
+
 export class ApiClient {
-  private loginPromise: Promise<SynologyResponse<AuthLoginResponse>> | undefined;
+  private loginPromise:
+    | Promise<SynologyResponse<AuthLoginResponse> | ConnectionFailure>
+    | undefined;
+  private apiInfoPromise: Promise<InfoQueryResponse | undefined> | undefined;
   private settingsVersion: number = 0;
   private onSettingsChangeListeners: (() => void)[] = [];
+  private currentDeviceId: string | undefined;
+  // Only the first login for any given settings tries the store. If that session turns out to be
+  // stale, the usual 105/106 handling discards it and the retry logs in for real.
+  private canRestoreSession = true;
+  // Logins wait for this, so that they can't restore a session that's being logged out.
+  private sessionStoreCleared: Promise<void> = Promise.resolve();
+  private coalescer = new RequestCoalescer();
+  private queue: RequestQueue;
+  private emitter = new Emitter<ApiClientEvent>();
+  private nextCallId = 1;
+  private nextRequestId = 1;
 
-  constructor(private settings: Partial<ApiClientSettings>) {}
+  constructor(private settings: Partial<ApiClientSettings>) {
+    this.currentDeviceId = settings.deviceId;
+    this.queue = new RequestQueue(
+      settings.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS,
+    );
+  }
 
+  // The device token to pass back as the `deviceId` setting to skip the OTP in the future, if there
+  // is one. Updated whenever a login registers this device.
+  public get deviceId() {
+    return this.currentDeviceId;
+  }
+
+  // Returns whether the client logged out to start a new session with the new settings.
   public updateSettings(settings: Partial<ApiClientSettings>) {
-    if (SETTING_NAME_KEYS.some((k) => settings[k] !== this.settings[k])) {
+    // A device token learned since the last update is still good for the same account.
+    const isSameAccount =
+      settings.baseUrl === this.settings.baseUrl && settings.account === this.settings.account;
+    this.currentDeviceId = settings.deviceId ?? (isSameAccount ? this.currentDeviceId : undefined);
+    this.queue.setLimit(settings.maxConcurrentRequests ?? DEFAULT_MAX_CONCURRENT_REQUESTS);
+
+    if (SESSION_SETTING_NAME_KEYS.some((k) => settings[k] !== this.settings[k])) {
       this.settingsVersion++;
+      this.canRestoreSession = true;
+      // With the old settings, NAS and API info, since that's what the session belongs to.
+      const oldApiInfo = this.apiInfoPromise;
+      this.logout(
+        this.getValidatedSettings(),
+        undefined,
+        this.requestContextFor(undefined, this.settings, (api, versions) =>
+          resolveFromApiInfo(oldApiInfo, api, versions),
+        ),
+      );
       this.settings = settings;
-      this.maybeLogout();
+      this.apiInfoPromise = undefined;
+      // Listeners are likely to make calls right away, which shouldn't see the old session.
+      this.sessionStoreCleared.then(() => {
+        this.onSettingsChangeListeners.forEach((l) => {
+          l();
+        });
+      });
       return true;
     } else {
+      this.settings = settings;
       return false;
     }
   }
@@ -97,11 +415,17 @@ export class ApiClient {
     };
   }
 
+  // Returns a function that removes the listener. Listeners are called synchronously, so they should
+  // be quick; errors they throw are rethrown asynchronously.
+  public on<T extends ApiClientEventType>(type: T, listener: ApiClientListener<T>) {
+    return this.emitter.on(type, listener);
+  }
+
   private getValidatedSettings() {
     if (
-      SETTING_NAME_KEYS.every((k) => {
+      REQUIRED_SETTING_NAME_KEYS.every((k) => {
         const v = this.settings[k];
-        return v != null && v.length > 0;
+        return typeof v === "string" && v.length > 0;
       })
     ) {
       return this.settings as ApiClientSettings;
@@ -110,7 +434,75 @@ export class ApiClient {
     }
   }
 
-  private maybeLogin = async (request?: BaseRequest) => {
+  // The result of SYNO.API.Info is cached for the lifetime of the settings. If the remote refuses
+  // to answer, we fall back to the hardcoded defaults rather than failing every call.
+  private getApiInfo(baseUrl: string) {
+    if (!this.apiInfoPromise) {
+      const apiInfoPromise = Info.Query(baseUrl, { query: "ALL" }, this.requestContext).then(
+        (response) => (response.success ? response.data : undefined),
+        (e) => {
+          // Don't cache connection failures; the next call should try again.
+          if (this.apiInfoPromise === apiInfoPromise) {
+            this.apiInfoPromise = undefined;
+          }
+          throw e;
+        },
+      );
+      this.apiInfoPromise = apiInfoPromise;
+    }
+    return this.apiInfoPromise;
+  }
+
+  private resolveApi: ApiResolver = (api, versions) =>
+    resolveFromApiInfo(this.getApiInfo(this.settings.baseUrl!), api, versions);
+
+  private get requestContext(): RequestContext {
+    return this.requestContextFor(undefined);
+  }
+
+  private requestContextFor(
+    callId: number | undefined,
+    settings: Partial<ApiClientSettings> = this.settings,
+    resolveApi: ApiResolver = this.resolveApi,
+  ): RequestContext {
+    return {
+      resolveApi,
+      transport: settings.transport,
+      sendRequest: settings.autoBatch ? this.coalescer.sendRequest : undefined,
+      strictResponses: settings.strictResponses,
+      // Innermost, so that the events show what was actually sent.
+      interceptors: [...(settings.requestInterceptors ?? []), this.observeRequests(callId)],
+    };
+  }
+
+  private observeRequests(callId: number | undefined): RequestInterceptor {
+    return async (intercepted, next) => {
+      const { baseUrl, request } = intercepted;
+      const requestId = this.nextRequestId++;
+      this.emitter.emit({ type: "request", callId, requestId, baseUrl, request });
+      const start = Date.now();
+      let response: SynologyResponse<unknown> | ConnectionFailure | undefined;
+      try {
+        response = await next(intercepted);
+        return response;
+      } catch (e) {
+        response = ConnectionFailure.from(e);
+        throw e;
+      } finally {
+        this.emitter.emit({
+          type: "response",
+          callId,
+          requestId,
+          request,
+          duration: Date.now() - start,
+          response: response!,
+        });
+      }
+    };
+  }
+
+  // The login is shared between calls, so aborting `signal` only stops this call waiting for it.
+  private maybeLogin = async ({ signal, ...request }: BaseRequest = {}) => {
     const settings = this.getValidatedSettings();
     if (settings == null) {
       const failure: ConnectionFailure = {
@@ -118,20 +510,119 @@ export class ApiClient {
       };
       return failure;
     } else if (!this.loginPromise) {
-      const { baseUrl, ...restSettings } = settings;
-      this.loginPromise = Auth.Login(baseUrl, {
-        ...request,
-        ...restSettings,
-      });
+      this.loginPromise = this.restoreSessionOrLogin(settings, request);
     }
 
+    const loginPromise = this.loginPromise;
     try {
-      return await this.loginPromise;
+      const response = await abortable(loginPromise, signal);
+      // Don't cache a missing OTP code; the next call should ask for one again.
+      if (isConnectionFailure(response) && this.loginPromise === loginPromise) {
+        this.loginPromise = undefined;
+      }
+      return response;
     } catch (e) {
       return ConnectionFailure.from(e);
     }
   };
 
+  private async restoreSessionOrLogin(
+    settings: ApiClientSettings,
+    request: BaseRequest | undefined,
+  ): Promise<SynologyResponse<AuthLoginResponse> | ConnectionFailure> {
+    const { baseUrl, account, session, sessionStore } = settings;
+    await this.sessionStoreCleared;
+    const start = Date.now();
+
+    if (sessionStore != null && this.canRestoreSession) {
+      this.canRestoreSession = false;
+      const stored = await sessionStore.load().catch(() => undefined);
+      if (
+        stored != null &&
+        stored.baseUrl === baseUrl &&
+        stored.account === account &&
+        stored.session === session
+      ) {
+        // Not validated until it's used.
+        const response: SynologyResponse<AuthLoginResponse> = {
+          success: true,
+          data: { sid: stored.sid },
+        };
+        this.emitter.emit({
+          type: "login",
+          restored: true,
+          duration: Date.now() - start,
+          response,
+        });
+        return response;
+      }
+    }
+
+    let response: SynologyResponse<AuthLoginResponse> | ConnectionFailure;
+    try {
+      response = await this.login(settings, request);
+    } catch (e) {
+      const failure = ConnectionFailure.from(e);
+      this.emitter.emit({
+        type: "login",
+        restored: false,
+        duration: Date.now() - start,
+        response: failure,
+      });
+      throw e;
+    }
+    this.emitter.emit({ type: "login", restored: false, duration: Date.now() - start, response });
+    if (sessionStore != null && !isConnectionFailure(response) && response.success) {
+      await sessionStore
+        .save({ baseUrl, account, session, sid: response.data.sid })
+        .catch(() => undefined);
+    }
+    return response;
+  }
+
+  private async login(
+    settings: ApiClientSettings,
+    request: BaseRequest | undefined,
+  ): Promise<SynologyResponse<AuthLoginResponse> | ConnectionFailure> {
+    const { baseUrl, account, passwd, session, requestOtpCode, deviceName } = settings;
+    const login = (otpCode: string | undefined) =>
+      Auth.Login(
+        baseUrl,
+        {
+          ...request,
+          account,
+          passwd,
+          session,
+          otp_code: otpCode,
+          enable_device_token: otpCode != null && deviceName != null ? true : undefined,
+          device_name: otpCode != null ? deviceName : undefined,
+          device_id: this.currentDeviceId,
+        },
+        this.requestContext,
+      );
+
+    let response = await login(undefined);
+    while (
+      !response.success &&
+      (response.error.code === OTP_REQUIRED_ERROR_CODE ||
+        response.error.code === OTP_FAILED_ERROR_CODE)
+    ) {
+      const otpCode = await requestOtpCode?.(
+        response.error.code === OTP_REQUIRED_ERROR_CODE ? "otp-required" : "otp-failed",
+      );
+      if (otpCode == null) {
+        const failure: ConnectionFailure = { type: "otp-required", failure: response };
+        return failure;
+      }
+      response = await login(otpCode);
+    }
+
+    if (response.success && response.data.did != null) {
+      this.currentDeviceId = response.data.did;
+    }
+    return response;
+  }
+
   // Note that this method is a BEST EFFORT.
   // (1) Because the client auto-re-logs in when you make new queries, this method will attempt to
   //     only log out the current session. The next non-logout call is guaranteed to attempt to log
@@ -139,11 +630,16 @@ export class ApiClient {
   // (2) The result of this call, either success or failure, has no bearing on future API calls. It
   //     is provided to the caller only for convenience, and may not reflect the true state of the
   //     client or session at the time the promise is resolved.
-  private maybeLogout = async (
+  private maybeLogout = (request?: BaseRequest) =>
+    this.logout(this.getValidatedSettings(), request);
+
+  // `settings` and `context` are the ones the current session was logged in with.
+  private async logout(
+    settings: ApiClientSettings | undefined,
     request?: BaseRequest,
-  ): Promise<SynologyResponse<{}> | ConnectionFailure | "not-logged-in"> => {
+    context: RequestContext = this.requestContext,
+  ): Promise<SynologyResponse<{}> | ConnectionFailure | "not-logged-in"> {
     const stashedLoginPromise = this.loginPromise;
-    const settings = this.getValidatedSettings();
     this.loginPromise = undefined;
 
     if (!stashedLoginPromise) {
@@ -154,104 +650,235 @@ export class ApiClient {
       };
       return failure;
     } else {
-      let response: SynologyResponse<AuthLoginResponse>;
-      const { baseUrl, session } = settings;
-
-      try {
-        response = await stashedLoginPromise;
-      } catch (e) {
-        return ConnectionFailure.from(e);
-      }
+      const { baseUrl, session, sessionStore } = settings;
+      const loginResponse = stashedLoginPromise.catch((e) => ConnectionFailure.from(e));
+      const storeCleared = loginResponse.then(async (response) => {
+        if (!isConnectionFailure(response) && response.success) {
+          await sessionStore?.clear().catch(() => undefined);
+        }
+      });
+      this.sessionStoreCleared = Promise.all([this.sessionStoreCleared, storeCleared]).then(
+        () => undefined,
+      );
 
-      if (response.success) {
+      const response = await loginResponse;
+      if (isConnectionFailure(response)) {
+        return response;
+      } else if (response.success) {
+        await storeCleared;
+        const start = Date.now();
+        let logoutResponse: SynologyResponse<{}> | ConnectionFailure;
         try {
-          return await Auth.Logout(baseUrl, {
-            ...request,
-            sid: response.data.sid,
-            session: session,
-          });
+          logoutResponse = await Auth.Logout(
+            baseUrl,
+            {
+              ...request,
+              sid: response.data.sid,
+              session: session,
+            },
+            context,
+          );
         } catch (e) {
-          return ConnectionFailure.from(e);
+          logoutResponse = ConnectionFailure.from(e);
         }
+        this.emitter.emit({
+          type: "logout",
+          duration: Date.now() - start,
+          response: logoutResponse,
+        });
+        return logoutResponse;
       } else {
         return response;
       }
     }
-  };
+  }
 
   private proxy<T, U>(
-    fn: (baseUrl: string, sid: string, options: T) => Promise<SynologyResponse<U>>,
+    fn: (
+      baseUrl: string,
+      sid: string,
+      options: T,
+      context?: RequestContext,
+    ) => Promise<SynologyResponse<U>>,
+    proxyOptions: ProxyOptions = {},
   ): (options: T) => Promise<SynologyResponse<U> | ConnectionFailure> {
-    const wrappedFunction = async (
+    const call: RetryableCall = { idempotent: proxyOptions.idempotent ?? true };
+
+    // Settings changes start the call over, but it's still the same call as far as events go.
+    const run = async (
+      callId: number,
       options: T,
-      shouldRetryRoutineFailures: boolean = true,
     ): Promise<SynologyResponse<U> | ConnectionFailure> => {
       const versionAtInit = this.settingsVersion;
-
-      const maybeLogoutAndRetry = (response: ConnectionFailure | SynologyFailureResponse) => {
-        if (
-          shouldRetryRoutineFailures &&
-          (isConnectionFailure(response) ||
-            response.error.code === SESSION_TIMEOUT_ERROR_CODE ||
-            response.error.code === NO_PERMISSIONS_ERROR_CODE)
-        ) {
-          this.loginPromise = undefined;
-          return wrappedFunction(options, false);
-        } else {
-          return response;
-        }
+      const signal = (options as BaseRequest | undefined)?.signal;
+      const policy: RetryPolicy = {
+        ...this.settings.retry,
+        ...(options as BaseRequest | undefined)?.retry,
+      };
+      const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+      const isRetryable = policy.isRetryable ?? isRetryableFailure;
+      let attempt = 1;
+      const restart = () => {
+        this.emitter.emit({
+          type: "retry",
+          callId,
+          attempt,
+          reason: "settings-changed",
+          failure: undefined,
+          delay: 0,
+        });
+        return run(callId, options);
       };
 
-      try {
-        // `await`s in this block aren't necessary to adhere to the type signature, but it changes
-        // who's responsible for handling the errors. Currently, errors unhandled by lower levels
-        // are bubbled up to the outermost `catch`.
+      for (; ; attempt++) {
+        let response: SynologyResponse<U> | ConnectionFailure;
+        let isLoginFailure = false;
 
-        const loginResponse = await this.maybeLogin();
+        // Errors thrown by lower levels are caught here so that they can be retried like any other
+        // failure.
+        try {
+          if (signal?.aborted) {
+            throw new CancelledError();
+          }
+          const loginResponse = await this.maybeLogin({ signal });
+          if (this.settingsVersion !== versionAtInit) {
+            return await restart();
+          } else if (isConnectionFailure(loginResponse) || !loginResponse.success) {
+            response = loginResponse;
+            isLoginFailure = true;
+          } else {
+            response = await this.runQueued(options, (queuedOptions) =>
+              fn(
+                this.settings.baseUrl!,
+                loginResponse.data.sid,
+                queuedOptions,
+                this.requestContextFor(callId),
+              ),
+            );
+          }
+        } catch (e) {
+          response = ConnectionFailure.from(e);
+        }
 
         if (this.settingsVersion !== versionAtInit) {
-          return await wrappedFunction(options);
-        } else if (isConnectionFailure(loginResponse) || !loginResponse.success) {
-          return await maybeLogoutAndRetry(loginResponse);
-        } else {
-          const response = await fn(this.settings.baseUrl!, loginResponse.data.sid, options);
+          return await restart();
+        }
 
+        const isSessionFailure =
+          !isConnectionFailure(response) &&
+          !response.success &&
+          SESSION_ERROR_CODES.includes(response.error.code);
+        // The session is no good whether or not this call retries, so the next call mustn't reuse it.
+        if (isSessionFailure) {
+          this.loginPromise = undefined;
+        }
+
+        if (signal?.aborted) {
+          const failure: ConnectionFailure = { type: "cancelled" };
+          return failure;
+        } else if (
+          (!isConnectionFailure(response) && response.success) ||
+          attempt >= maxAttempts ||
+          !isRetryable(response, call)
+        ) {
+          return response;
+        }
+
+        if (isLoginFailure) {
+          this.loginPromise = undefined;
+        }
+        // A new session is all it takes to fix a session failure, so there's no point waiting.
+        const delay = isSessionFailure ? 0 : retryDelay(policy, attempt);
+        this.emitter.emit({
+          type: "retry",
+          callId,
+          attempt,
+          reason: isSessionFailure ? "session-expired" : "failure",
+          failure: response,
+          delay,
+        });
+        if (!isSessionFailure) {
+          // Wakes up early if cancelled, and the next attempt notices.
+          await sleep(delay, signal);
           if (this.settingsVersion !== versionAtInit) {
-            return await wrappedFunction(options);
-          } else if (response.success) {
-            return response;
-          } else {
-            return await maybeLogoutAndRetry(response);
+            return await restart();
           }
         }
-      } catch (e) {
-        return ConnectionFailure.from(e);
       }
     };
 
-    return wrappedFunction;
+    return (options: T) => this.interceptCall(options, call.idempotent, run);
+  }
+
+  private async interceptCall<T, U>(
+    options: T,
+    idempotent: boolean,
+    run: (callId: number, options: T) => Promise<SynologyResponse<U> | ConnectionFailure>,
+  ): Promise<SynologyResponse<U> | ConnectionFailure> {
+    const id = this.nextCallId++;
+    try {
+      return (await runInterceptors(
+        this.settings.callInterceptors ?? [],
+        { id, options, idempotent },
+        (intercepted) => run(id, intercepted.options as T),
+      )) as SynologyResponse<U> | ConnectionFailure;
+    } catch (e) {
+      return ConnectionFailure.from(e);
+    }
+  }
+
+  // Time spent waiting counts towards the call's timeout.
+  private async runQueued<T, U>(
+    options: T,
+    fn: (options: T) => Promise<SynologyResponse<U>>,
+  ): Promise<SynologyResponse<U> | ConnectionFailure> {
+    const request = options as BaseRequest | undefined;
+    const timeout = request?.timeout;
+    const queuedAt = Date.now();
+    const release = await this.queue.acquire(request?.queuePriority, timeout, request?.signal);
+    const remaining = timeout == null ? undefined : timeout - (Date.now() - queuedAt);
+    // The timer may fire late, so the call's turn can come with no time left to make it.
+    if (release == null || (remaining != null && remaining <= 0)) {
+      release?.();
+      const failure: ConnectionFailure = {
+        type: "timeout",
+        error: new TimeoutError("timed out waiting for other requests to finish"),
+      };
+      return failure;
+    }
+    try {
+      return await fn(remaining == null ? options : { ...options, timeout: remaining });
+    } finally {
+      release();
+    }
   }
 
   private proxyOptionalArgs<T, U>(
-    fn: (baseUrl: string, sid: string, options?: T) => Promise<SynologyResponse<U>>,
+    fn: (
+      baseUrl: string,
+      sid: string,
+      options?: T,
+      context?: RequestContext,
+    ) => Promise<SynologyResponse<U>>,
   ): (options?: T) => Promise<SynologyResponse<U> | ConnectionFailure> {
     return this.proxy(fn);
   }
 
   private proxyWithoutAuth<T, U>(
-    fn: (baseUrl: string, options: T) => Promise<SynologyResponse<U>>,
+    fn: (baseUrl: string, options: T, context?: RequestContext) => Promise<SynologyResponse<U>>,
   ): (options: T) => Promise<SynologyResponse<U> | ConnectionFailure> {
-    return async (options: T) => {
-      const settings = this.getValidatedSettings();
-      if (settings == null) {
-        const response: ConnectionFailure = {
-          type: "missing-config",
-        };
-        return response;
-      } else {
-        return fn(settings.baseUrl, options);
-      }
-    };
+    return (options: T) =>
+      this.interceptCall(options, true, async (callId, options) => {
+        const settings = this.getValidatedSettings();
+        if (settings == null) {
+          const response: ConnectionFailure = {
+            type: "missing-config",
+          };
+          return response;
+        } else {
+          return fn(settings.baseUrl, options, this.requestContextFor(callId));
+        }
+      });
   }
 
   public Auth = {
@@ -259,6 +886,17 @@ export class ApiClient {
     Logout: this.maybeLogout,
   };
 
+  public Entry = {
+    Request: {
+      request: this.proxy(Entry.Request.request, { idempotent: false }),
+      batch: this.proxy(Entry.Request.batch, { idempotent: false }) as <
+        T extends BatchCall<unknown>[]
+      >(
+        options: EntryBatchRequest<T>,
+      ) => Promise<SynologyResponse<BatchResults<T>> | ConnectionFailure>,
+    },
+  };
+
   public Info = {
     Query: this.proxyWithoutAuth(Info.Query),
   };
@@ -279,17 +917,46 @@ export class ApiClient {
     Task: {
       List: this.proxyOptionalArgs(DownloadStation.Task.List),
       GetInfo: this.proxy(DownloadStation.Task.GetInfo),
-      Create: this.proxy(DownloadStation.Task.Create),
+      Create: this.proxy(DownloadStation.Task.Create, { idempotent: false }),
       Delete: this.proxy(DownloadStation.Task.Delete),
       Pause: this.proxy(DownloadStation.Task.Pause),
       Resume: this.proxy(DownloadStation.Task.Resume),
       Edit: this.proxy(DownloadStation.Task.Edit),
     },
+    RSS: {
+      Site: {
+        List: this.proxyOptionalArgs(DownloadStation.RSS.Site.List),
+        Refresh: this.proxy(DownloadStation.RSS.Site.Refresh),
+      },
+      Feed: {
+        List: this.proxy(DownloadStation.RSS.Feed.List),
+      },
+    },
+    BTSearch: {
+      Start: this.proxy(DownloadStation.BTSearch.Start, { idempotent: false }),
+      List: this.proxy(DownloadStation.BTSearch.List),
+      GetCategory: this.proxyOptionalArgs(DownloadStation.BTSearch.GetCategory),
+      Clean: this.proxy(DownloadStation.BTSearch.Clean),
+      GetModule: this.proxyOptionalArgs(DownloadStation.BTSearch.GetModule),
+    },
   };
 
   public DownloadStation2 = {
     Task: {
-      Create: this.proxy(DownloadStation2.Task.Create),
+      List: this.proxyOptionalArgs(DownloadStation2.Task.List),
+      Get: this.proxy(DownloadStation2.Task.Get),
+      Create: this.proxy(DownloadStation2.Task.Create, { idempotent: false }),
+      Delete: this.proxy(DownloadStation2.Task.Delete),
+      Pause: this.proxy(DownloadStation2.Task.Pause),
+      Resume: this.proxy(DownloadStation2.Task.Resume),
+      Edit: this.proxy(DownloadStation2.Task.Edit),
+    },
+    TaskList: {
+      Get: this.proxy(DownloadStation2.TaskList.Get),
+      Download: this.proxy(DownloadStation2.TaskList.Download, { idempotent: false }),
+    },
+    TaskBtFile: {
+      Set: this.proxy(DownloadStation2.TaskBtFile.Set),
     },
   };
 
@@ -302,5 +969,42 @@ export class ApiClient {
       list: this.proxy(FileStation.List.list),
       getinfo: this.proxy(FileStation.List.getinfo),
     },
+    Upload: {
+      upload: this.proxy(FileStation.Upload.upload, { idempotent: false }),
+    },
+    Download: {
+      download: this.proxy(FileStation.Download.download),
+    },
+    CreateFolder: {
+      create: this.proxy(FileStation.CreateFolder.create, { idempotent: false }),
+    },
+    Rename: {
+      rename: this.proxy(FileStation.Rename.rename, { idempotent: false }),
+    },
+    Delete: {
+      start: this.proxy(FileStation.Delete.start),
+      status: this.proxy(FileStation.Delete.status),
+      stop: this.proxy(FileStation.Delete.stop),
+      delete: this.proxy(FileStation.Delete.delete),
+    },
+    CopyMove: {
+      start: this.proxy(FileStation.CopyMove.start, { idempotent: false }),
+      status: this.proxy(FileStation.CopyMove.status),
+      stop: this.proxy(FileStation.CopyMove.stop),
+    },
+    Search: {
+      start: this.proxy(FileStation.Search.start, { idempotent: false }),
+      list: this.proxy(FileStation.Search.list),
+      stop: this.proxy(FileStation.Search.stop),
+      clean: this.proxy(FileStation.Search.clean),
+    },
+    Sharing: {
+      getinfo: this.proxy(FileStation.Sharing.getinfo),
+      list: this.proxyOptionalArgs(FileStation.Sharing.list),
+      create: this.proxy(FileStation.Sharing.create, { idempotent: false }),
+      delete: this.proxy(FileStation.Sharing.delete),
+      clear_invalid: this.proxyOptionalArgs(FileStation.Sharing.clear_invalid),
+      edit: this.proxy(FileStation.Sharing.edit),
+    },
   };
 }
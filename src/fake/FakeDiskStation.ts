@@ -0,0 +1,1898 @@
+import { parse } from "query-string";
+import type { InfoQueryResponse } from "../rest/Info";
+import type { AuthLoginResponse } from "../rest/Auth";
+import type { EntryCompoundCall, EntryCompoundResult, EntryRequestResponse } from "../rest/Entry";
+import type {
+  DownloadStationInfoConfig,
+  DownloadStationBtSearchListResponse,
+  DownloadStationBtSearchResult,
+  DownloadStationInfoGetInfoResponse,
+  DownloadStationRssFeedItem,
+  DownloadStationRssFeedListResponse,
+  DownloadStationRssSite,
+  DownloadStationRssSiteListResponse,
+  DownloadStationScheduleConfig,
+  DownloadStationStatisticGetInfoResponse,
+  DownloadStationTask,
+  DownloadStationTaskActionResponse,
+  DownloadStationTaskAdditionalType,
+  DownloadStationTaskFile,
+  DownloadStationTaskListResponse,
+} from "../rest/DownloadStation";
+import type {
+  DownloadStation2TaskActionResponse,
+  DownloadStation2TaskCreateResponse,
+  DownloadStation2TaskListFile,
+  DownloadStation2TaskListGetResponse,
+} from "../rest/DownloadStation2";
+import type {
+  FileStationFile,
+  FileStationFileAdditionalType,
+  FileStationFileList,
+  FileStationInfoGetResponse,
+  FileStationListListShareResponse,
+  FileStationSearchListResponse,
+  FileStationSharedFolder,
+  FileStationSharingCreateResponse,
+  FileStationSharingLink,
+  FileStationSharingListResponse,
+  FileStationTime,
+} from "../rest/FileStation";
+import type { FormFile, SynologyFailureResponse, SynologyResponse } from "../rest/shared";
+import {
+  CancelledError,
+  NetworkError,
+  TimeoutError,
+  Transport,
+  TransportRequest,
+  TransportResponse,
+} from "../rest/transport";
+
+// ------------------------------------------------------------------------- //
+//                                  Types                                    //
+// ------------------------------------------------------------------------- //
+
+export type FakeRequestParams = Record<string, string | FormFile>;
+
+export interface FakeRequestRecord {
+  api: string;
+  method: string;
+  version: number;
+  cgi: string;
+  params: FakeRequestParams;
+}
+
+export interface FakeErrorRule {
+  api?: string;
+  method?: string;
+  code: number;
+  // How many matching requests should fail. Defaults to 1.
+  times?: number;
+}
+
+export type FakeConnectionFailure = "network" | "timeout";
+
+export interface FakeFileSeed {
+  path: string;
+  isdir?: boolean;
+  size?: number;
+  mtime?: number;
+  content?: Blob;
+}
+
+export type FakeTaskSeed = Partial<DownloadStationTask> & { title: string };
+
+export interface FakeRssSiteSeed {
+  title: string;
+  url: string;
+  items?: (Partial<DownloadStationRssFeedItem> & { title: string; download_uri: string })[];
+}
+
+// Every BTSearch returns whichever of these contain the keyword in their title.
+export type FakeBtSearchSeed = Partial<DownloadStationBtSearchResult> & {
+  title: string;
+  dlurl: string;
+};
+
+export interface FakeDiskStationOptions {
+  // Map of account name to password. Defaults to a single "admin" account with password "admin".
+  accounts?: Record<string, string>;
+  // Map of account name to the OTP code it requires, for accounts with 2-step verification.
+  otpCodes?: Record<string, string>;
+  tasks?: FakeTaskSeed[];
+  rssSites?: FakeRssSiteSeed[];
+  btSearchResults?: FakeBtSearchSeed[];
+  // The files that every torrent added with DownloadStation2's create_list appears to contain.
+  // Defaults to a single file named after the torrent.
+  torrentFiles?: { name: string; size: number }[];
+  // Any missing parent folders are created automatically. Top-level folders are shares.
+  files?: FakeFileSeed[];
+  hostname?: string;
+  // Overrides for what SYNO.API.Info advertises. Set an entry to undefined to remove that API
+  // entirely, which causes the fake to reject it as nonexistent.
+  apiInfo?: Partial<InfoQueryResponse>;
+}
+
+interface FakeFile {
+  path: string;
+  isdir: boolean;
+  size: number;
+  time: FileStationTime;
+  content?: Blob;
+}
+
+interface FakeSharingLink {
+  id: string;
+  path: string;
+  owner: string;
+  password: string;
+  date_expired: string;
+  date_available: string;
+}
+
+interface FakeSession {
+  account: string;
+  session: string;
+  isExpired: boolean;
+}
+
+type Handler = (params: FakeRequestParams, session: FakeSession | undefined) => unknown;
+
+export interface FakeHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Blob;
+}
+
+// Distinguishes handlers that want to fail from handlers that return data.
+class FakeError {
+  constructor(public code: number) {}
+}
+
+// For handlers that respond with file contents instead of the usual JSON envelope.
+class FakeBinary {
+  constructor(public content: Blob, public filename: string, public isAttachment: boolean) {}
+}
+
+// ------------------------------------------------------------------------- //
+//                                 Helpers                                   //
+// ------------------------------------------------------------------------- //
+
+const WEBAPI_PATH_REGEX = /^\/webapi\/(.+)\.cgi$/;
+
+const DEFAULT_API_INFO: InfoQueryResponse = {
+  "SYNO.API.Info": { path: "query.cgi", minVersion: 1, maxVersion: 1, requestFormat: "JSON" },
+  "SYNO.API.Auth": { path: "auth.cgi", minVersion: 1, maxVersion: 6, requestFormat: "JSON" },
+  "SYNO.Entry.Request": { path: "entry.cgi", minVersion: 1, maxVersion: 1, requestFormat: "JSON" },
+  "SYNO.DownloadStation.Info": {
+    path: "DownloadStation/info.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.Schedule": {
+    path: "DownloadStation/schedule.cgi",
+    minVersion: 1,
+    maxVersion: 1,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.Statistic": {
+    path: "DownloadStation/statistic.cgi",
+    minVersion: 1,
+    maxVersion: 1,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.Task": {
+    path: "DownloadStation/task.cgi",
+    minVersion: 1,
+    maxVersion: 3,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.RSS.Site": {
+    path: "DownloadStation/RSSsite.cgi",
+    minVersion: 1,
+    maxVersion: 1,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.RSS.Feed": {
+    path: "DownloadStation/RSSfeed.cgi",
+    minVersion: 1,
+    maxVersion: 1,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation.BTSearch": {
+    path: "DownloadStation/btsearch.cgi",
+    minVersion: 1,
+    maxVersion: 1,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation2.Task": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation2.Task.List": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.DownloadStation2.Task.BT.File": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Info": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.List": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Upload": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 3,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Download": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.CreateFolder": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Rename": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Delete": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.CopyMove": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 3,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Search": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 2,
+    requestFormat: "JSON",
+  },
+  "SYNO.FileStation.Sharing": {
+    path: "entry.cgi",
+    minVersion: 1,
+    maxVersion: 3,
+    requestFormat: "JSON",
+  },
+};
+
+// Searches reveal this many more results each time they're listed, so that callers see them trickle
+// in the way they do from a real NAS.
+const SEARCH_RESULTS_PER_LIST = 10;
+
+// DownloadStation2 reports statuses by number.
+const DOWNLOAD_STATION2_STATUS_CODES: Record<DownloadStationTask["status"], number> = {
+  waiting: 1,
+  downloading: 2,
+  paused: 3,
+  finishing: 4,
+  finished: 5,
+  hash_checking: 6,
+  seeding: 7,
+  filehosting_waiting: 8,
+  extracting: 9,
+  error: 10,
+};
+
+const UNAUTHENTICATED_APIS = ["SYNO.API.Info", "SYNO.API.Auth"];
+
+function nowInSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function parentPath(path: string) {
+  return path.slice(0, path.lastIndexOf("/"));
+}
+
+function basename(path: string) {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function stringParam(params: FakeRequestParams, key: string): string | undefined {
+  const v = params[key];
+  return typeof v === "string" ? v : undefined;
+}
+
+function booleanParam(params: FakeRequestParams, key: string): boolean | undefined {
+  const v = stringParam(params, key);
+  return v == null ? undefined : v === "true";
+}
+
+function numberParam(params: FakeRequestParams, key: string): number | undefined {
+  const v = stringParam(params, key);
+  return v == null || v === "" ? undefined : +v;
+}
+
+// Most APIs take plain comma-separated lists.
+function listParam(params: FakeRequestParams, key: string): string[] {
+  const v = stringParam(params, key);
+  return v == null || v === "" ? [] : v.split(",");
+}
+
+// FileStation APIs other than List and Sharing take JSON-encoded paths and task IDs. Anything else
+// is rejected, so that tests catch parameters sent in the wrong encoding.
+function jsonParamOf<T>(
+  params: FakeRequestParams,
+  key: string,
+  isValid: (value: unknown) => value is T,
+): T | undefined {
+  const v = stringParam(params, key);
+  if (v == null) {
+    return undefined;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(v);
+  } catch (e) {
+    throw new FakeError(400);
+  }
+  if (!isValid(value)) {
+    throw new FakeError(400);
+  }
+  return value;
+}
+
+function jsonListParam(params: FakeRequestParams, key: string): string[] {
+  return (
+    jsonParamOf(
+      params,
+      key,
+      (v): v is string[] => Array.isArray(v) && v.every((s) => typeof s === "string"),
+    ) ?? []
+  );
+}
+
+function jsonStringParam(params: FakeRequestParams, key: string): string | undefined {
+  return jsonParamOf(params, key, (v): v is string => typeof v === "string");
+}
+
+// DownloadStation2 JSON-encodes every parameter.
+function jsonParam<T>(params: FakeRequestParams, key: string): T | undefined {
+  const v = stringParam(params, key);
+  return v == null ? undefined : JSON.parse(v);
+}
+
+// Like the NAS, sorts by name unless told otherwise.
+function compareFiles(params: FakeRequestParams) {
+  const sortBy = stringParam(params, "sort_by") ?? "name";
+  const direction = stringParam(params, "sort_direction") === "desc" ? -1 : 1;
+  return (a: FakeFile, b: FakeFile) => {
+    let comparison: number;
+    if (sortBy === "size") {
+      comparison = a.size - b.size;
+    } else if (
+      sortBy === "mtime" ||
+      sortBy === "atime" ||
+      sortBy === "ctime" ||
+      sortBy === "crtime"
+    ) {
+      comparison = a.time[sortBy] - b.time[sortBy];
+    } else {
+      comparison = basename(a.path).localeCompare(basename(b.path));
+    }
+    return comparison * direction;
+  };
+}
+
+function paginate<T>(items: T[], offset: number | undefined, limit: number | undefined): T[] {
+  const start = offset ?? 0;
+  // The APIs in question treat a limit of 0 (or -1) as "no limit".
+  return limit == null || limit <= 0 ? items.slice(start) : items.slice(start, start + limit);
+}
+
+function globToRegExp(glob: string) {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`, "i");
+}
+
+function guessTaskType(uri: string): DownloadStationTask["type"] {
+  if (uri.startsWith("magnet:") || uri.endsWith(".torrent")) {
+    return "bt";
+  } else if (uri.startsWith("ftp:")) {
+    return "ftp";
+  } else if (uri.startsWith("ed2k:")) {
+    return "emule";
+  } else if (uri.endsWith(".nzb")) {
+    return "nzb";
+  } else {
+    return "http";
+  }
+}
+
+function guessTaskTitle(uri: string) {
+  if (uri.startsWith("magnet:")) {
+    const name = new URLSearchParams(uri.slice(uri.indexOf("?") + 1)).get("dn");
+    if (name) {
+      return name;
+    }
+  }
+  return basename(uri.replace(/[?#].*$/, "")) || uri;
+}
+
+// ------------------------------------------------------------------------- //
+//                              FakeDiskStation                              //
+// ------------------------------------------------------------------------- //
+
+// An in-memory imitation of a DiskStation, for testing code built on this library without a NAS.
+// It implements Transport, so it can be passed directly to ApiClient or any REST function. See
+// also serveFakeDiskStation in the Node entry point to expose it over real HTTP.
+//
+// It models the subset of behavior this library relies on, not the full semantics of DSM.
+export class FakeDiskStation implements Transport {
+  public readonly requests: FakeRequestRecord[] = [];
+
+  private apiInfo: InfoQueryResponse;
+  private accounts: Record<string, string>;
+  private otpCodes: Record<string, string>;
+  // Map of device token to the account that registered it.
+  private deviceTokens = new Map<string, string>();
+  private hostname: string;
+  private sessions = new Map<string, FakeSession>();
+  private nextId = 1;
+  private errorRules: (FakeErrorRule & { times: number })[] = [];
+  private connectionFailures: FakeConnectionFailure[] = [];
+
+  private tasks: DownloadStationTask[] = [];
+  // Torrents added with create_list, waiting for the caller to pick files.
+  private pendingTaskLists = new Map<
+    string,
+    DownloadStation2TaskListGetResponse & { uri: string; destination: string | undefined }
+  >();
+  private rssSites: (DownloadStationRssSite & { items: DownloadStationRssFeedItem[] })[] = [];
+  private files = new Map<string, FakeFile>();
+  // File operations happen instantly, so these just hold the final status to report.
+  private backgroundTasks = new Map<string, object>();
+  private searches = new Map<string, { results: string[]; found: number }>();
+  private btSearchResults: DownloadStationBtSearchResult[];
+  private torrentFiles: { name: string; size: number }[] | undefined;
+  private btSearches = new Map<
+    string,
+    { results: DownloadStationBtSearchResult[]; found: number }
+  >();
+  private sharingLinks = new Map<string, FakeSharingLink>();
+  private downloadStationConfig: DownloadStationInfoConfig = {
+    bt_max_download: 0,
+    bt_max_upload: 0,
+    emule_max_download: 0,
+    emule_max_upload: 0,
+    nzb_max_download: 0,
+    http_max_download: 0,
+    ftp_max_download: 0,
+    emule_enabled: false,
+    unzip_service_enabled: false,
+    default_destination: "downloads",
+    emule_default_destination: "downloads",
+  };
+  private scheduleConfig: DownloadStationScheduleConfig = {
+    enabled: false,
+    emule_enabled: false,
+  };
+
+  private handlers: Record<string, Record<string, Handler>>;
+
+  constructor(options: FakeDiskStationOptions = {}) {
+    this.accounts = options.accounts ?? { admin: "admin" };
+    this.otpCodes = options.otpCodes ?? {};
+    this.hostname = options.hostname ?? "FakeDiskStation";
+
+    this.apiInfo = { ...DEFAULT_API_INFO };
+    Object.keys(options.apiInfo ?? {}).forEach((api) => {
+      const info = options.apiInfo![api];
+      if (info == null) {
+        delete this.apiInfo[api];
+      } else {
+        this.apiInfo[api] = info;
+      }
+    });
+
+    (options.files ?? []).forEach((f) => {
+      this.addFile(f);
+    });
+    (options.tasks ?? []).forEach((t) => {
+      this.addTask(t);
+    });
+    (options.rssSites ?? []).forEach((s) => {
+      this.addRssSite(s);
+    });
+    this.torrentFiles = options.torrentFiles;
+    this.btSearchResults = (options.btSearchResults ?? []).map((r, i) => ({
+      id: i,
+      external_link: "",
+      size: 0,
+      date: "2020-01-01 00:00:00",
+      peers: 0,
+      seeds: 0,
+      leechs: 0,
+      provider: "fake",
+      ...r,
+    }));
+
+    this.handlers = {
+      "SYNO.API.Info": {
+        query: this.infoQuery,
+      },
+      "SYNO.API.Auth": {
+        login: this.authLogin,
+        logout: this.authLogout,
+      },
+      "SYNO.Entry.Request": {
+        request: this.entryRequest,
+      },
+      "SYNO.DownloadStation.Info": {
+        getinfo: (): DownloadStationInfoGetInfoResponse => ({
+          is_manager: true,
+          version: 3000,
+          version_string: "3.0-3000",
+        }),
+        getconfig: (): DownloadStationInfoConfig => ({ ...this.downloadStationConfig }),
+        setserverconfig: (params) => {
+          this.downloadStationConfig = this.applyConfig(this.downloadStationConfig, params);
+          return {};
+        },
+      },
+      "SYNO.DownloadStation.Schedule": {
+        getconfig: (): DownloadStationScheduleConfig => ({ ...this.scheduleConfig }),
+        setconfig: (params) => {
+          this.scheduleConfig = this.applyConfig(this.scheduleConfig, params);
+          return {};
+        },
+      },
+      "SYNO.DownloadStation.Statistic": {
+        getinfo: this.statisticGetInfo,
+      },
+      "SYNO.DownloadStation.Task": {
+        list: this.taskList,
+        getinfo: this.taskGetInfo,
+        create: this.taskCreate,
+        delete: (params) => this.taskAction(params, (t) => this.removeTask(t.id)),
+        pause: (params) =>
+          this.taskAction(params, (t) => this.updateTask(t.id, { status: "paused" })),
+        resume: (params) =>
+          this.taskAction(params, (t) => this.updateTask(t.id, { status: "waiting" })),
+        edit: (params) =>
+          this.taskAction(params, (t) => {
+            const destination = stringParam(params, "destination");
+            if (destination != null && t.additional?.detail) {
+              t.additional.detail.destination = destination;
+            }
+          }),
+      },
+      "SYNO.DownloadStation.RSS.Site": {
+        list: this.rssSiteList,
+        refresh: this.rssSiteRefresh,
+      },
+      "SYNO.DownloadStation.RSS.Feed": {
+        list: this.rssFeedList,
+      },
+      "SYNO.DownloadStation.BTSearch": {
+        start: (params) => {
+          const keyword = (stringParam(params, "keyword") ?? "").toLowerCase();
+          const taskid = `BTSearch_${this.nextId++}`;
+          this.btSearches.set(taskid, {
+            results: this.btSearchResults.filter((r) => r.title.toLowerCase().includes(keyword)),
+            found: 0,
+          });
+          return { taskid };
+        },
+        list: this.btSearchList,
+        getCategory: () => ({
+          categories: Array.from(
+            new Set(
+              this.btSearchResults.map((r) => r.category).filter((c): c is string => c != null),
+            ),
+          ).map((c) => ({ id: c, title: c })),
+        }),
+        clean: (params) => {
+          listParam(params, "taskid").forEach((taskid) => {
+            this.btSearches.delete(taskid);
+          });
+          return {};
+        },
+        getModule: () => ({ modules: [{ id: "fake", title: "Fake", enabled: true }] }),
+      },
+      "SYNO.DownloadStation2.Task": {
+        list: this.task2List,
+        get: (params) => {
+          const ids = jsonParam<string[]>(params, "id") ?? [];
+          return {
+            task: this.tasks
+              .filter((t) => ids.includes(t.id))
+              .map((t) => this.presentTask2(t, jsonParam<string[]>(params, "additional") ?? [])),
+          };
+        },
+        create: this.task2Create,
+        delete: (params) => this.task2Action(params, (t) => this.removeTask(t.id)),
+        pause: (params) =>
+          this.task2Action(params, (t) => this.updateTask(t.id, { status: "paused" })),
+        resume: (params) =>
+          this.task2Action(params, (t) => this.updateTask(t.id, { status: "waiting" })),
+        edit: (params) =>
+          this.task2Action(params, (t) => {
+            const destination = jsonParam<string>(params, "destination");
+            if (destination != null && t.additional?.detail) {
+              t.additional.detail.destination = destination;
+            }
+          }),
+      },
+      "SYNO.DownloadStation2.Task.List": {
+        get: (params) => {
+          const list = this.pendingTaskLists.get(jsonParam<string>(params, "list_id") ?? "");
+          if (list == null) {
+            return new FakeError(101);
+          }
+          const { uri: _uri, destination: _destination, ...output } = list;
+          return output;
+        },
+        download: this.taskListDownload,
+      },
+      "SYNO.DownloadStation2.Task.BT.File": {
+        set: this.taskBtFileSet,
+      },
+      "SYNO.FileStation.Info": {
+        get: (): FileStationInfoGetResponse => ({
+          is_manager: true,
+          support_virtual_protocol: 0,
+          support_sharing: true,
+          hostname: this.hostname,
+        }),
+      },
+      "SYNO.FileStation.List": {
+        list_share: this.listListShare,
+        list: this.listList,
+        getinfo: this.listGetInfo,
+      },
+      "SYNO.FileStation.Upload": {
+        upload: this.uploadUpload,
+      },
+      "SYNO.FileStation.Download": {
+        download: this.downloadDownload,
+      },
+      "SYNO.FileStation.CreateFolder": {
+        create: this.createFolderCreate,
+      },
+      "SYNO.FileStation.Rename": {
+        rename: this.renameRename,
+      },
+      "SYNO.FileStation.Delete": {
+        start: (params) => this.startBackgroundTask(() => this.deleteFiles(params)),
+        status: this.backgroundTaskStatus,
+        stop: this.backgroundTaskStop,
+        delete: (params) => this.deleteFiles(params),
+      },
+      "SYNO.FileStation.CopyMove": {
+        start: (params) => this.startBackgroundTask(() => this.copyMoveFiles(params)),
+        status: this.backgroundTaskStatus,
+        stop: this.backgroundTaskStop,
+      },
+      "SYNO.FileStation.Search": {
+        start: this.searchStart,
+        list: this.searchList,
+        stop: () => ({}),
+        clean: (params) => {
+          this.searches.delete(jsonStringParam(params, "taskid") ?? "");
+          return {};
+        },
+      },
+      "SYNO.FileStation.Sharing": {
+        getinfo: (params) => {
+          const link = this.sharingLinks.get(stringParam(params, "id") ?? "");
+          return link ? this.presentSharingLink(link) : new FakeError(2000);
+        },
+        list: this.sharingList,
+        create: this.sharingCreate,
+        delete: (params) =>
+          this.sharingAction(params, (link) => {
+            this.sharingLinks.delete(link.id);
+          }),
+        clear_invalid: () => {
+          this.clearInvalidSharingLinks();
+          return {};
+        },
+        edit: (params) =>
+          this.sharingAction(params, (link) => {
+            link.password = stringParam(params, "password") ?? link.password;
+            link.date_expired = stringParam(params, "date_expired") ?? link.date_expired;
+            link.date_available = stringParam(params, "date_available") ?? link.date_available;
+          }),
+      },
+    };
+  }
+
+  // ----------------------------------------------------------------------- //
+  //                            Test controls                                //
+  // ----------------------------------------------------------------------- //
+
+  // Make the next matching request(s) fail with the given error code, such as 105 or 106.
+  public injectError(rule: FakeErrorRule) {
+    this.errorRules.push({ ...rule, times: rule.times ?? 1 });
+  }
+
+  // Make the next request(s) fail before reaching the fake NAS at all.
+  public injectConnectionFailure(failure: FakeConnectionFailure, times: number = 1) {
+    for (let i = 0; i < times; ++i) {
+      this.connectionFailures.push(failure);
+    }
+  }
+
+  // All existing sids start reporting 106 (session timeout), as if the NAS had expired them.
+  public expireSessions() {
+    this.sessions.forEach((s) => {
+      s.isExpired = true;
+    });
+  }
+
+  // Forget all sids, as if the NAS had rebooted. They'll be rejected with 105.
+  public clearSessions() {
+    this.sessions.clear();
+  }
+
+  public get sids() {
+    return Array.from(this.sessions.keys()).filter((sid) => !this.sessions.get(sid)!.isExpired);
+  }
+
+  public getTasks(): DownloadStationTask[] {
+    return JSON.parse(JSON.stringify(this.tasks));
+  }
+
+  public addTask(seed: FakeTaskSeed): DownloadStationTask {
+    const id = seed.id ?? `dbid_${this.nextId++}`;
+    const now = nowInSeconds();
+    const task: DownloadStationTask = {
+      type: "http",
+      username: Object.keys(this.accounts)[0] ?? "admin",
+      size: 0,
+      status: "waiting",
+      ...seed,
+      id,
+      additional: {
+        detail: {
+          completed_time: 0,
+          connected_leechers: 0,
+          connected_peers: 0,
+          connected_seeders: 0,
+          create_time: now,
+          destination: this.downloadStationConfig.default_destination,
+          seedelapsed: 0,
+          started_time: 0,
+          total_peers: 0,
+          total_pieces: 0,
+          unzip_password: "",
+          uri: "",
+          waiting_seconds: 0,
+        },
+        file: [],
+        peer: [],
+        tracker: [],
+        transfer: {
+          downloaded_pieces: 0,
+          size_downloaded: 0,
+          size_uploaded: 0,
+          speed_download: 0,
+          speed_upload: 0,
+        },
+        ...seed.additional,
+      },
+    };
+    this.tasks.push(task);
+    return task;
+  }
+
+  // Shallowly merges `patch` into the task, and shallowly merges each of `patch.additional`.
+  public updateTask(id: string, patch: Partial<DownloadStationTask>) {
+    const task = this.tasks.find((t) => t.id === id);
+    if (task == null) {
+      throw new Error(`no such task ${id}`);
+    }
+    const { additional, ...rest } = patch;
+    Object.assign(task, rest);
+    if (additional) {
+      task.additional = { ...task.additional };
+      (Object.keys(additional) as (keyof typeof additional)[]).forEach((k) => {
+        const value = additional[k];
+        task.additional![k] = (Array.isArray(value)
+          ? value
+          : { ...(task.additional![k] as object), ...(value as object) }) as any;
+      });
+    }
+  }
+
+  public removeTask(id: string) {
+    this.tasks = this.tasks.filter((t) => t.id !== id);
+  }
+
+  public addRssSite(seed: FakeRssSiteSeed): DownloadStationRssSite {
+    const now = nowInSeconds();
+    const site = {
+      id: this.nextId++,
+      is_updating: false,
+      title: seed.title,
+      url: seed.url,
+      last_update: now,
+      username: Object.keys(this.accounts)[0] ?? "admin",
+      items: (seed.items ?? []).map((i) => ({ size: 0, time: now, external_link: "", ...i })),
+    };
+    this.rssSites.push(site);
+    const { items: _items, ...output } = site;
+    return output;
+  }
+
+  public addFile(seed: FakeFileSeed) {
+    const path = seed.path.replace(/\/+$/, "");
+    const parent = parentPath(path);
+    if (parent !== "" && !this.files.has(parent)) {
+      this.addFile({ path: parent, isdir: true });
+    }
+    const now = nowInSeconds();
+    const mtime = seed.mtime ?? now;
+    this.files.set(path, {
+      path,
+      isdir: seed.isdir ?? false,
+      size: seed.size ?? seed.content?.size ?? 0,
+      time: { atime: mtime, mtime, ctime: mtime, crtime: mtime },
+      content: seed.content,
+    });
+  }
+
+  // ----------------------------------------------------------------------- //
+  //                               Transport                                 //
+  // ----------------------------------------------------------------------- //
+
+  public request = async (request: TransportRequest): Promise<TransportResponse> => {
+    if (request.signal?.aborted) {
+      throw new CancelledError();
+    }
+    const failure = this.takeConnectionFailure();
+    if (failure === "network") {
+      throw new NetworkError("injected network failure");
+    } else if (failure === "timeout") {
+      throw new TimeoutError();
+    }
+
+    const url = new URL(request.url);
+    const params: FakeRequestParams = {};
+    const query = parse(url.search);
+    Object.keys(query).forEach((k) => {
+      const v = query[k];
+      params[k] = Array.isArray(v) ? v[0] : v ?? "";
+    });
+    let bodySize = 0;
+    (request.body ?? []).forEach((field) => {
+      params[field.name] =
+        "filename" in field ? { content: field.value, filename: field.filename } : field.value;
+      bodySize += "filename" in field ? field.value.size : field.value.length;
+    });
+    // Everything arrives at once, as far as the caller is concerned.
+    request.onUploadProgress?.({ loaded: bodySize, total: bodySize });
+
+    const { status, headers, body } = this.respond(url.pathname, params, request.headers);
+    return {
+      status,
+      ok: status >= 200 && status < 300,
+      headers: {
+        get: (name) => headers[name.toLowerCase()] ?? null,
+      },
+      json: async () => JSON.parse(await body.text()),
+      blob: async () => body,
+      body:
+        typeof body.stream === "function" ? (body.stream() as ReadableStream<Uint8Array>) : null,
+    };
+  };
+
+  // This and respond() are exposed for alternative front-ends, such as serveFakeDiskStation.
+  public takeConnectionFailure(): FakeConnectionFailure | undefined {
+    return this.connectionFailures.shift();
+  }
+
+  public respond(
+    pathname: string,
+    params: FakeRequestParams,
+    headers: Record<string, string | undefined> = {},
+  ): FakeHttpResponse {
+    const match = WEBAPI_PATH_REGEX.exec(pathname);
+    if (match == null) {
+      return { status: 404, headers: {}, body: new Blob([]) };
+    }
+
+    const result = this.handle(match[1], params);
+    if (!(result instanceof FakeBinary)) {
+      return {
+        status: 200,
+        headers: { "content-type": "application/json; charset=utf-8" },
+        // Serializing also means callers can't accidentally share references with internal state.
+        body: new Blob([JSON.stringify(result)]),
+      };
+    }
+
+    const { content, filename, isAttachment } = result;
+    const responseHeaders: Record<string, string> = {
+      "content-type": isAttachment
+        ? "application/octet-stream"
+        : content.type || "application/octet-stream",
+      "content-disposition": `${isAttachment ? "attachment" : "inline"}; filename="${filename}"`,
+      "accept-ranges": "bytes",
+    };
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(
+      headers[Object.keys(headers).find((k) => k.toLowerCase() === "range") ?? ""] ?? "",
+    );
+    if (range == null) {
+      return {
+        status: 200,
+        headers: { ...responseHeaders, "content-length": String(content.size) },
+        body: content,
+      };
+    }
+
+    const start = +range[1];
+    const end = Math.min(range[2] === "" ? Infinity : +range[2], content.size - 1);
+    if (start >= content.size || start > end) {
+      return {
+        status: 416,
+        headers: { "content-range": `bytes */${content.size}` },
+        body: new Blob([]),
+      };
+    }
+    return {
+      status: 206,
+      headers: {
+        ...responseHeaders,
+        "content-length": String(end - start + 1),
+        "content-range": `bytes ${start}-${end}/${content.size}`,
+      },
+      body: content.slice(start, end + 1),
+    };
+  }
+
+  private handle(cgi: string, params: FakeRequestParams): SynologyResponse<unknown> | FakeBinary {
+    const api = stringParam(params, "api") ?? "";
+    const method = stringParam(params, "method") ?? "";
+    const version = numberParam(params, "version") ?? 0;
+    this.requests.push({ api, method, version, cgi, params });
+
+    const info = this.apiInfo[api];
+    if (info == null || `${cgi}.cgi` !== info.path) {
+      return this.failure(102);
+    } else if (this.handlers[api]?.[method] == null) {
+      return this.failure(103);
+    } else if (version < info.minVersion || version > info.maxVersion) {
+      return this.failure(104);
+    }
+
+    const ruleIndex = this.errorRules.findIndex(
+      (r) => (r.api == null || r.api === api) && (r.method == null || r.method === method),
+    );
+    if (ruleIndex !== -1) {
+      const rule = this.errorRules[ruleIndex];
+      if (--rule.times <= 0) {
+        this.errorRules.splice(ruleIndex, 1);
+      }
+      return this.failure(rule.code);
+    }
+
+    let session: FakeSession | undefined;
+    if (!UNAUTHENTICATED_APIS.includes(api)) {
+      session = this.sessions.get(stringParam(params, "_sid") ?? stringParam(params, "sid") ?? "");
+      if (session == null) {
+        return this.failure(105);
+      } else if (session.isExpired) {
+        return this.failure(106);
+      }
+    }
+
+    let result: unknown;
+    try {
+      result = this.handlers[api][method](params, session);
+    } catch (e) {
+      if (e instanceof FakeError) {
+        return this.failure(e.code);
+      }
+      throw e;
+    }
+    if (result instanceof FakeError) {
+      return this.failure(result.code);
+    } else if (result instanceof FakeBinary) {
+      return result;
+    } else {
+      return { success: true, data: result };
+    }
+  }
+
+  private failure(code: number): SynologyFailureResponse {
+    return { success: false, error: { code } };
+  }
+
+  private applyConfig<T extends object>(config: T, params: FakeRequestParams): T {
+    const output: any = { ...config };
+    Object.keys(config).forEach((k) => {
+      const v = stringParam(params, k);
+      if (v != null) {
+        const current = output[k];
+        output[k] =
+          typeof current === "number" ? +v : typeof current === "boolean" ? v === "true" : v;
+      }
+    });
+    return output;
+  }
+
+  // ----------------------------------------------------------------------- //
+  //                                  APIs                                   //
+  // ----------------------------------------------------------------------- //
+
+  private infoQuery: Handler = (params): InfoQueryResponse => {
+    const query = stringParam(params, "query") ?? "ALL";
+    if (query === "ALL") {
+      return this.apiInfo;
+    } else {
+      const output: InfoQueryResponse = {};
+      query.split(",").forEach((api) => {
+        if (this.apiInfo[api]) {
+          output[api] = this.apiInfo[api];
+        }
+      });
+      return output;
+    }
+  };
+
+  private authLogin: Handler = (params): AuthLoginResponse | FakeError => {
+    const account = stringParam(params, "account") ?? "";
+    const passwd = stringParam(params, "passwd");
+    if (this.accounts[account] == null || this.accounts[account] !== passwd) {
+      return new FakeError(400);
+    }
+    let did: string | undefined;
+    const otpCode = stringParam(params, "otp_code");
+    // Like the real thing, older versions silently ignore device tokens.
+    const supportsDeviceTokens = (numberParam(params, "version") ?? 0) >= 6;
+    const deviceId = supportsDeviceTokens ? stringParam(params, "device_id") : undefined;
+    if (
+      this.otpCodes[account] != null &&
+      (deviceId == null || this.deviceTokens.get(deviceId) !== account)
+    ) {
+      if (otpCode == null) {
+        return new FakeError(403);
+      } else if (otpCode !== this.otpCodes[account]) {
+        return new FakeError(404);
+      } else if (supportsDeviceTokens && stringParam(params, "enable_device_token") === "yes") {
+        did = `fake-did-${this.nextId++}`;
+        this.deviceTokens.set(did, account);
+      }
+    }
+    const sid = `fake-sid-${this.nextId++}`;
+    this.sessions.set(sid, {
+      account,
+      session: stringParam(params, "session") ?? "",
+      isExpired: false,
+    });
+    return did == null ? { sid } : { sid, did };
+  };
+
+  private authLogout: Handler = (params) => {
+    this.sessions.delete(stringParam(params, "_sid") ?? stringParam(params, "sid") ?? "");
+    return {};
+  };
+
+  // Each call is handled as though it were its own request, so injected errors and expired sessions
+  // apply to each one individually.
+  private entryRequest: Handler = (params): EntryRequestResponse | FakeError => {
+    const compound = jsonParam<EntryCompoundCall[]>(params, "compound");
+    if (!Array.isArray(compound)) {
+      return new FakeError(101);
+    }
+    const stopWhenError = booleanParam(params, "stop_when_error") ?? false;
+    const sid = stringParam(params, "_sid") ?? "";
+
+    const result: EntryCompoundResult[] = [];
+    for (const call of compound) {
+      const callParams: FakeRequestParams = { _sid: sid };
+      Object.keys(call).forEach((k) => {
+        const v = call[k];
+        if (v !== undefined) {
+          callParams[k] = typeof v === "string" ? v : JSON.stringify(v);
+        }
+      });
+      const cgi = (this.apiInfo[call.api]?.path ?? "").replace(/\.cgi$/, "");
+      const response = this.handle(cgi, callParams);
+      const { api, method, version } = call;
+      result.push({
+        api,
+        method,
+        version,
+        ...(response instanceof FakeBinary ? this.failure(101) : response),
+      });
+      if (!result[result.length - 1].success && stopWhenError) {
+        break;
+      }
+    }
+    return { has_fail: result.some((r) => !r.success), result };
+  };
+
+  private statisticGetInfo: Handler = (): DownloadStationStatisticGetInfoResponse => {
+    return this.tasks.reduce(
+      (stats, t) => {
+        const transfer = t.additional?.transfer;
+        if (transfer && (t.status === "downloading" || t.status === "seeding")) {
+          stats.speed_download += transfer.speed_download;
+          stats.speed_upload += transfer.speed_upload;
+        }
+        return stats;
+      },
+      { speed_download: 0, speed_upload: 0 },
+    );
+  };
+
+  private presentTask(task: DownloadStationTask, additional: string[]): DownloadStationTask {
+    const { additional: allAdditional, ...rest } = task;
+    if (additional.length === 0 || allAdditional == null) {
+      return rest;
+    } else {
+      const output: DownloadStationTask["additional"] = {};
+      (additional as DownloadStationTaskAdditionalType[]).forEach((k) => {
+        if (allAdditional[k] != null) {
+          output[k] = allAdditional[k] as any;
+        }
+      });
+      return { ...rest, additional: output };
+    }
+  }
+
+  private taskList: Handler = (params): DownloadStationTaskListResponse => {
+    const offset = numberParam(params, "offset") ?? 0;
+    const tasks = paginate(this.tasks, offset, numberParam(params, "limit")).map((t) =>
+      this.presentTask(t, listParam(params, "additional")),
+    );
+    return {
+      // Faithfully reproduce the quirk documented on DownloadStationTaskListResponse.
+      total: tasks.length,
+      offset,
+      tasks,
+    };
+  };
+
+  private taskGetInfo: Handler = (params) => {
+    const ids = listParam(params, "id");
+    return {
+      tasks: this.tasks
+        .filter((t) => ids.includes(t.id))
+        .map((t) => this.presentTask(t, listParam(params, "additional"))),
+    };
+  };
+
+  private taskAction(
+    params: FakeRequestParams,
+    action: (task: DownloadStationTask) => void,
+  ): DownloadStationTaskActionResponse {
+    return listParam(params, "id").map((id) => {
+      const task = this.tasks.find((t) => t.id === id);
+      if (task == null) {
+        return { id, error: 404 };
+      } else {
+        action(task);
+        return { id, error: 0 };
+      }
+    });
+  }
+
+  private createTask(
+    type: DownloadStationTask["type"],
+    title: string,
+    uri: string,
+    destination?: string,
+  ) {
+    const task = this.addTask({ type, title });
+    task.additional!.detail!.uri = uri;
+    if (destination) {
+      task.additional!.detail!.destination = destination;
+    }
+    return task;
+  }
+
+  private taskCreate: Handler = (params) => {
+    const destination = stringParam(params, "destination");
+    const file = params["file"];
+    if (typeof file === "object") {
+      this.createTask("bt", file.filename.replace(/\.torrent$/, ""), "", destination);
+    } else {
+      const uris = listParam(params, "uri");
+      if (uris.length === 0) {
+        return new FakeError(101);
+      }
+      uris.forEach((uri) => {
+        this.createTask(guessTaskType(uri), guessTaskTitle(uri), uri, destination);
+      });
+    }
+    return {};
+  };
+
+  private task2Create: Handler = (params): DownloadStation2TaskCreateResponse | FakeError => {
+    const type = jsonParam<string>(params, "type");
+    const destination = jsonParam<string>(params, "destination");
+    let sources: { type: DownloadStationTask["type"]; title: string; uri: string }[];
+    if (type === "url") {
+      sources = (jsonParam<string[]>(params, "url") ?? []).map((uri) => ({
+        type: guessTaskType(uri),
+        title: guessTaskTitle(uri),
+        uri,
+      }));
+    } else if (type === "file") {
+      const torrent = params["torrent"];
+      if (typeof torrent !== "object") {
+        return new FakeError(101);
+      }
+      sources = [{ type: "bt", title: torrent.filename.replace(/\.torrent$/, ""), uri: "" }];
+    } else if (type === "local") {
+      const path = jsonParam<string>(params, "local_path") ?? "";
+      sources = [{ type: "bt", title: basename(path).replace(/\.torrent$/, ""), uri: "" }];
+    } else {
+      return new FakeError(101);
+    }
+
+    const response: DownloadStation2TaskCreateResponse = { list_id: [], task_id: [] };
+    sources.forEach(({ type, title, uri }) => {
+      if (type === "bt" && jsonParam<boolean>(params, "create_list")) {
+        const listId = `list_${this.nextId++}`;
+        const files: DownloadStation2TaskListFile[] = (
+          this.torrentFiles ?? [{ name: title, size: 0 }]
+        ).map((f, index) => ({ ...f, index }));
+        this.pendingTaskLists.set(listId, {
+          title,
+          type,
+          size: files.reduce((total, f) => total + f.size, 0),
+          files,
+          uri,
+          destination,
+        });
+        response.list_id.push(listId);
+      } else {
+        response.task_id.push(this.createTask(type, title, uri, destination).id);
+      }
+    });
+    return response;
+  };
+
+  private presentTask2(task: DownloadStationTask, additional: string[]) {
+    return {
+      ...this.presentTask(task, additional),
+      status: DOWNLOAD_STATION2_STATUS_CODES[task.status],
+    };
+  }
+
+  private task2List: Handler = (params) => {
+    const offset = jsonParam<number>(params, "offset") ?? 0;
+    return {
+      total: this.tasks.length,
+      offset,
+      task: paginate(this.tasks, offset, jsonParam<number>(params, "limit")).map((t) =>
+        this.presentTask2(t, jsonParam<string[]>(params, "additional") ?? []),
+      ),
+    };
+  };
+
+  private task2Action(
+    params: FakeRequestParams,
+    action: (task: DownloadStationTask) => void,
+  ): DownloadStation2TaskActionResponse {
+    const failed_task: DownloadStation2TaskActionResponse["failed_task"] = [];
+    (jsonParam<string[]>(params, "id") ?? []).forEach((id) => {
+      const task = this.tasks.find((t) => t.id === id);
+      if (task == null) {
+        failed_task.push({ id, error: 404 });
+      } else {
+        action(task);
+      }
+    });
+    return { failed_task };
+  }
+
+  private taskBtFileSet: Handler = (params) => {
+    const task = this.tasks.find((t) => t.id === jsonParam<string>(params, "task_id"));
+    if (task == null || task.type !== "bt") {
+      return new FakeError(101);
+    }
+    const files = task.additional?.file ?? [];
+    const indices = jsonParam<number[]>(params, "index") ?? [];
+    if (indices.length === 0 || indices.some((i) => !files.some((f) => f.index === i))) {
+      return new FakeError(101);
+    }
+    const wanted = jsonParam<boolean>(params, "wanted");
+    const priority = jsonParam<DownloadStationTaskFile["priority"]>(params, "priority");
+    files
+      .filter((f) => indices.includes(f.index))
+      .forEach((f) => {
+        if (priority != null) {
+          f.priority = priority;
+          f.wanted = priority !== "skip";
+        }
+        if (wanted != null) {
+          f.wanted = wanted;
+          if (!wanted) {
+            f.priority = "skip";
+          } else if (f.priority === "skip") {
+            f.priority = "normal";
+          }
+        }
+      });
+    return {};
+  };
+
+  private taskListDownload: Handler = (params) => {
+    const listId = jsonParam<string>(params, "list_id") ?? "";
+    const list = this.pendingTaskLists.get(listId);
+    if (list == null) {
+      return new FakeError(101);
+    }
+    const selected = jsonParam<number[]>(params, "selected") ?? [];
+    if (selected.length === 0 || selected.some((i) => list.files[i] == null)) {
+      return new FakeError(101);
+    }
+    this.pendingTaskLists.delete(listId);
+    const task = this.createTask(
+      list.type,
+      list.title,
+      list.uri,
+      jsonParam<string>(params, "destination") || list.destination,
+    );
+    this.updateTask(task.id, {
+      size: list.files.filter((f) => selected.includes(f.index)).reduce((t, f) => t + f.size, 0),
+      additional: {
+        file: list.files.map((f) => ({
+          filename: f.name,
+          index: f.index,
+          priority: selected.includes(f.index) ? "normal" : "skip",
+          size: f.size,
+          size_downloaded: 0,
+          wanted: selected.includes(f.index),
+        })),
+      },
+    });
+    return { task_id: task.id };
+  };
+
+  private rssSiteList: Handler = (params): DownloadStationRssSiteListResponse => {
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: this.rssSites.length,
+      offset,
+      sites: paginate(this.rssSites, offset, numberParam(params, "limit")).map(
+        ({ items: _items, ...site }) => site,
+      ),
+    };
+  };
+
+  private rssSiteRefresh: Handler = (params) => {
+    const ids = listParam(params, "id").map(Number);
+    const sites = this.rssSites.filter((s) => ids.includes(s.id));
+    if (sites.length !== ids.length) {
+      return new FakeError(101);
+    }
+    sites.forEach((s) => {
+      s.last_update = nowInSeconds();
+    });
+    return {};
+  };
+
+  private rssFeedList: Handler = (params): DownloadStationRssFeedListResponse | FakeError => {
+    const site = this.rssSites.find((s) => s.id === numberParam(params, "id"));
+    if (site == null) {
+      return new FakeError(101);
+    }
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: site.items.length,
+      offset,
+      // The real NAS sends these as strings, which the library is expected to fix.
+      feeds: paginate(site.items, offset, numberParam(params, "limit")).map(
+        (i) =>
+          (({
+            ...i,
+            size: String(i.size),
+            time: String(i.time),
+          } as unknown) as DownloadStationRssFeedItem),
+      ),
+    };
+  };
+
+  private btSearchList: Handler = (params): DownloadStationBtSearchListResponse | FakeError => {
+    const search = this.btSearches.get(stringParam(params, "taskid") ?? "");
+    if (search == null) {
+      return new FakeError(101);
+    }
+    search.found = Math.min(search.found + SEARCH_RESULTS_PER_LIST, search.results.length);
+
+    const category = stringParam(params, "filter_category");
+    const title = stringParam(params, "filter_title")?.toLowerCase();
+    const sortBy = (stringParam(params, "sort_by") ??
+      "title") as keyof DownloadStationBtSearchResult;
+    const direction = stringParam(params, "sort_direction") === "desc" ? -1 : 1;
+    const items = search.results
+      .slice(0, search.found)
+      .filter((r) => category == null || r.category === category)
+      .filter((r) => title == null || r.title.toLowerCase().includes(title))
+      .sort((a, b) => {
+        const x = a[sortBy] ?? "";
+        const y = b[sortBy] ?? "";
+        return (
+          (typeof x === "number" && typeof y === "number"
+            ? x - y
+            : String(x).localeCompare(String(y))) * direction
+        );
+      });
+
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      finished: search.found === search.results.length,
+      total: items.length,
+      offset,
+      // The real NAS sends sizes as strings, which the library is expected to fix.
+      items: paginate(items, offset, numberParam(params, "limit")).map(
+        (r) => (({ ...r, size: String(r.size) } as unknown) as DownloadStationBtSearchResult),
+      ),
+    };
+  };
+
+  private presentFile(file: FakeFile, additional: string[]): FileStationFile {
+    const output: FileStationFile = {
+      path: file.path,
+      name: basename(file.path),
+      isdir: file.isdir,
+    };
+    if (additional.length > 0) {
+      output.additional = {};
+      (additional as FileStationFileAdditionalType[]).forEach((k) => {
+        if (k === "real_path") {
+          output.additional!.real_path = `/volume1${file.path}`;
+        } else if (k === "size") {
+          output.additional!.size = file.size;
+        } else if (k === "time") {
+          output.additional!.time = { ...file.time };
+        } else if (k === "type") {
+          output.additional!.type = file.isdir ? "" : basename(file.path).split(".").pop() ?? "";
+        }
+      });
+    }
+    return output;
+  }
+
+  private listListShare: Handler = (params): FileStationListListShareResponse => {
+    const shares = Array.from(this.files.values())
+      .filter((f) => f.isdir && parentPath(f.path) === "")
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: shares.length,
+      offset,
+      shares: paginate(shares, offset, numberParam(params, "limit")).map(
+        (f) =>
+          ({
+            ...this.presentFile(f, listParam(params, "additional")),
+            isdir: true,
+          } as FileStationSharedFolder),
+      ),
+    };
+  };
+
+  private listList: Handler = (params): FileStationFileList | FakeError => {
+    const folderPath = (stringParam(params, "folder_path") ?? "").replace(/\/+$/, "");
+    const folder = this.files.get(folderPath);
+    if (folder == null) {
+      return new FakeError(408);
+    } else if (!folder.isdir) {
+      return new FakeError(407);
+    }
+
+    const filetype = stringParam(params, "filetype") ?? "all";
+    const patterns = listParam(params, "pattern").map(globToRegExp);
+
+    const children = Array.from(this.files.values())
+      .filter((f) => parentPath(f.path) === folderPath)
+      .filter((f) => filetype === "all" || (filetype === "dir") === f.isdir)
+      .filter((f) => patterns.length === 0 || patterns.some((p) => p.test(basename(f.path))))
+      .sort(compareFiles(params));
+
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: children.length,
+      offset,
+      files: paginate(children, offset, numberParam(params, "limit")).map((f) =>
+        this.presentFile(f, listParam(params, "additional")),
+      ),
+    };
+  };
+
+  private listGetInfo: Handler = (params) => {
+    const files: FileStationFile[] = [];
+    for (const path of listParam(params, "path")) {
+      const file = this.files.get(path.replace(/\/+$/, ""));
+      if (file == null) {
+        return new FakeError(408);
+      }
+      files.push(this.presentFile(file, listParam(params, "additional")));
+    }
+    return { files };
+  };
+
+  private uploadUpload: Handler = (params) => {
+    const folderPath = (stringParam(params, "path") ?? "").replace(/\/+$/, "");
+    const file = params["file"];
+    if (typeof file !== "object") {
+      return new FakeError(401);
+    }
+
+    const folder = this.files.get(folderPath);
+    if (folder == null && !booleanParam(params, "create_parents")) {
+      return new FakeError(408);
+    } else if (folder != null && !folder.isdir) {
+      return new FakeError(407);
+    }
+
+    const path = `${folderPath}/${file.filename}`;
+    const overwrite = booleanParam(params, "overwrite");
+    if (this.files.has(path)) {
+      if (overwrite == null) {
+        return new FakeError(1805);
+      } else if (!overwrite) {
+        return { blSkip: true, file: file.filename };
+      }
+    }
+
+    this.addFile({
+      path,
+      content: file.content,
+      mtime: params["mtime"] != null ? Math.floor(numberParam(params, "mtime")! / 1000) : undefined,
+    });
+    return { blSkip: false, file: file.filename };
+  };
+
+  private downloadDownload: Handler = (params) => {
+    const paths = jsonListParam(params, "path");
+    const file = paths.length === 1 ? this.files.get(paths[0].replace(/\/+$/, "")) : undefined;
+    if (paths.length === 1 && file == null) {
+      return new FakeError(408);
+    } else if (file == null || file.isdir) {
+      // Generating zip files is more than this fake is willing to do.
+      return new FakeError(401);
+    }
+    return new FakeBinary(
+      file.content ?? new Blob([new Uint8Array(file.size)]),
+      basename(file.path),
+      stringParam(params, "mode") !== "open",
+    );
+  };
+
+  private getFile(path: string) {
+    return this.files.get(path.replace(/\/+$/, ""));
+  }
+
+  private descendantPaths(path: string) {
+    return Array.from(this.files.keys()).filter((p) => p.startsWith(`${path}/`));
+  }
+
+  private createFolderCreate: Handler = (params) => {
+    const parents = jsonListParam(params, "folder_path");
+    const names = jsonListParam(params, "name");
+    const forceParent = booleanParam(params, "force_parent") ?? false;
+    if (parents.length !== names.length) {
+      return new FakeError(101);
+    }
+
+    const folders: FileStationFile[] = [];
+    for (let i = 0; i < parents.length; ++i) {
+      const path = `${parents[i].replace(/\/+$/, "")}/${names[i]}`;
+      const existing = this.getFile(path);
+      if (!forceParent && (this.getFile(parents[i]) == null || existing != null)) {
+        return new FakeError(1100);
+      } else if (existing != null && !existing.isdir) {
+        return new FakeError(1100);
+      } else if (existing == null) {
+        this.addFile({ path, isdir: true });
+      }
+      folders.push(this.presentFile(this.getFile(path)!, listParam(params, "additional")));
+    }
+    return { folders };
+  };
+
+  private renameRename: Handler = (params) => {
+    const paths = jsonListParam(params, "path");
+    const names = jsonListParam(params, "name");
+    if (paths.length !== names.length) {
+      return new FakeError(101);
+    }
+
+    const files: FileStationFile[] = [];
+    for (let i = 0; i < paths.length; ++i) {
+      const file = this.getFile(paths[i]);
+      if (file == null) {
+        return new FakeError(408);
+      }
+      const newPath = `${parentPath(file.path)}/${names[i]}`;
+      if (newPath !== file.path && this.files.has(newPath)) {
+        return new FakeError(414);
+      }
+      [file.path, ...this.descendantPaths(file.path)].forEach((oldPath) => {
+        const moved = this.files.get(oldPath)!;
+        this.files.delete(oldPath);
+        moved.path = newPath + oldPath.slice(file.path.length);
+        this.files.set(moved.path, moved);
+      });
+      files.push(this.presentFile(file, listParam(params, "additional")));
+    }
+    return { files };
+  };
+
+  private deleteFiles(params: FakeRequestParams) {
+    const paths = jsonListParam(params, "path").map((p) => p.replace(/\/+$/, ""));
+    const recursive = booleanParam(params, "recursive") ?? true;
+    for (const path of paths) {
+      if (!this.files.has(path)) {
+        return new FakeError(408);
+      } else if (!recursive && this.descendantPaths(path).length > 0) {
+        return new FakeError(900);
+      }
+    }
+    paths.forEach((path) => {
+      [path, ...this.descendantPaths(path)].forEach((p) => {
+        this.files.delete(p);
+      });
+    });
+    return {};
+  }
+
+  private copyMoveFiles(params: FakeRequestParams) {
+    const paths = jsonListParam(params, "path").map((p) => p.replace(/\/+$/, ""));
+    const destFolderPath = (jsonStringParam(params, "dest_folder_path") ?? "").replace(/\/+$/, "");
+    const overwrite = booleanParam(params, "overwrite");
+    const removeSrc = booleanParam(params, "remove_src") ?? false;
+
+    const destFolder = this.getFile(destFolderPath);
+    if (destFolder == null || !destFolder.isdir) {
+      return new FakeError(1002);
+    }
+    for (const path of paths) {
+      if (!this.files.has(path)) {
+        return new FakeError(408);
+      } else if (destFolderPath === path || destFolderPath.startsWith(`${path}/`)) {
+        return new FakeError(removeSrc ? 1001 : 1000);
+      } else if (overwrite == null && this.files.has(`${destFolderPath}/${basename(path)}`)) {
+        return new FakeError(1003);
+      }
+    }
+
+    let processedSize = 0;
+    paths.forEach((path) => {
+      const destPath = `${destFolderPath}/${basename(path)}`;
+      if (destPath === path || (this.files.has(destPath) && !overwrite)) {
+        return;
+      }
+      [path, ...this.descendantPaths(path)].forEach((p) => {
+        const source = this.files.get(p)!;
+        const copy = { ...source, path: destPath + p.slice(path.length) };
+        this.files.set(copy.path, copy);
+        processedSize += source.size;
+        if (removeSrc) {
+          this.files.delete(p);
+        }
+      });
+    });
+    return {
+      dest_folder_path: destFolderPath,
+      path: paths[paths.length - 1] ?? "",
+      processed_size: processedSize,
+      total: processedSize,
+    };
+  }
+
+  // Owners and groups aren't modeled, so those filters are ignored.
+  private searchStart: Handler = (params) => {
+    const folderPaths = jsonListParam(params, "folder_path").map((p) => p.replace(/\/+$/, ""));
+    const recursive = booleanParam(params, "recursive") ?? true;
+    const pattern = stringParam(params, "pattern");
+    const extension = stringParam(params, "extension")?.toLowerCase();
+    const filetype = stringParam(params, "filetype") ?? "all";
+    if (folderPaths.length === 0 || folderPaths.some((p) => !this.getFile(p)?.isdir)) {
+      return new FakeError(408);
+    }
+
+    // The NAS treats a pattern without wildcards as a substring match.
+    const patternRegExp =
+      pattern == null || pattern === ""
+        ? undefined
+        : globToRegExp(/[*?]/.test(pattern) ? pattern : `*${pattern}*`);
+    const inRange = (value: number, key: string) => {
+      const from = numberParam(params, `${key}_from`);
+      const to = numberParam(params, `${key}_to`);
+      return (from == null || value >= from) && (to == null || value <= to);
+    };
+
+    const results = Array.from(this.files.values())
+      .filter((f) =>
+        folderPaths.some((p) =>
+          recursive ? f.path.startsWith(`${p}/`) : parentPath(f.path) === p,
+        ),
+      )
+      .filter((f) => filetype === "all" || (filetype === "dir") === f.isdir)
+      .filter((f) => patternRegExp == null || patternRegExp.test(basename(f.path)))
+      .filter(
+        (f) =>
+          extension == null ||
+          extension === "" ||
+          (!f.isdir && basename(f.path).toLowerCase().endsWith(`.${extension}`)),
+      )
+      .filter(
+        (f) =>
+          inRange(f.size, "size") &&
+          inRange(f.time.mtime, "mtime") &&
+          inRange(f.time.crtime, "crtime") &&
+          inRange(f.time.atime, "atime"),
+      )
+      .map((f) => f.path);
+
+    const taskid = `FileStation_${this.nextId++}`;
+    this.searches.set(taskid, { results, found: 0 });
+    return { taskid };
+  };
+
+  private searchList: Handler = (params): FileStationSearchListResponse | FakeError => {
+    const search = this.searches.get(jsonStringParam(params, "taskid") ?? "");
+    if (search == null) {
+      return new FakeError(599);
+    }
+    search.found = Math.min(search.found + SEARCH_RESULTS_PER_LIST, search.results.length);
+    const found = search.results
+      .slice(0, search.found)
+      .map((p) => this.getFile(p))
+      .filter((f): f is FakeFile => f != null)
+      .sort(compareFiles(params));
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: found.length,
+      offset,
+      finished: search.found === search.results.length,
+      files: paginate(found, offset, numberParam(params, "limit")).map((f) =>
+        this.presentFile(f, listParam(params, "additional")),
+      ),
+    };
+  };
+
+  private presentSharingLink(link: FakeSharingLink): FileStationSharingLink {
+    const file = this.getFile(link.path);
+    // Dates are YYYY-MM-DD, which conveniently compare correctly as strings.
+    const today = new Date().toISOString().slice(0, 10);
+    return {
+      id: link.id,
+      url: `http://${this.hostname}:5000/sharing/${link.id}`,
+      link_owner: link.owner,
+      path: link.path,
+      isFolder: file?.isdir ?? false,
+      has_password: link.password !== "",
+      date_expired: link.date_expired,
+      date_available: link.date_available,
+      status:
+        file == null
+          ? "broken"
+          : link.date_expired !== "0" && link.date_expired < today
+          ? "expired"
+          : "valid",
+    };
+  }
+
+  private clearInvalidSharingLinks() {
+    this.sharingLinks.forEach((link) => {
+      if (this.presentSharingLink(link).status !== "valid") {
+        this.sharingLinks.delete(link.id);
+      }
+    });
+  }
+
+  private sharingList: Handler = (params): FileStationSharingListResponse => {
+    if (booleanParam(params, "force_clean")) {
+      this.clearInvalidSharingLinks();
+    }
+    const sortBy = (stringParam(params, "sort_by") ?? "id") as keyof FileStationSharingLink;
+    const direction = stringParam(params, "sort_direction") === "desc" ? -1 : 1;
+    const links = Array.from(this.sharingLinks.values())
+      .map((l) => this.presentSharingLink(l))
+      .sort((a, b) => String(a[sortBy]).localeCompare(String(b[sortBy])) * direction);
+    const offset = numberParam(params, "offset") ?? 0;
+    return {
+      total: links.length,
+      offset,
+      links: paginate(links, offset, numberParam(params, "limit")),
+    };
+  };
+
+  private sharingCreate: Handler = (params, session): FileStationSharingCreateResponse => ({
+    links: listParam(params, "path").map((path) => {
+      path = path.replace(/\/+$/, "");
+      if (this.getFile(path) == null) {
+        return { id: "", url: "", qrcode: "", path, error: 408 };
+      }
+      const link: FakeSharingLink = {
+        id: `link${this.nextId++}`,
+        path,
+        owner: session?.account ?? "",
+        password: stringParam(params, "password") ?? "",
+        date_expired: stringParam(params, "date_expired") ?? "0",
+        date_available: stringParam(params, "date_available") ?? "0",
+      };
+      this.sharingLinks.set(link.id, link);
+      return {
+        id: link.id,
+        url: this.presentSharingLink(link).url,
+        // Not a real QR code, just a 1x1 transparent PNG.
+        qrcode:
+          "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+        path,
+        error: 0,
+      };
+    }),
+  });
+
+  // Like the NAS, checks every ID before acting on any of them.
+  private sharingAction(params: FakeRequestParams, action: (link: FakeSharingLink) => void) {
+    const links = listParam(params, "id").map((id) => this.sharingLinks.get(id));
+    if (links.length === 0 || links.some((l) => l == null)) {
+      return new FakeError(2000);
+    }
+    links.forEach((l) => {
+      action(l!);
+    });
+    return {};
+  }
+
+  private startBackgroundTask(run: () => unknown) {
+    const result = run();
+    if (result instanceof FakeError) {
+      return result;
+    }
+    const taskid = `FileStation_${this.nextId++}`;
+    this.backgroundTasks.set(taskid, {
+      finished: true,
+      progress: 1,
+      processed_num: 1,
+      total: 1,
+      path: "",
+      processing_path: "",
+      ...(result as object),
+    });
+    return { taskid };
+  }
+
+  private backgroundTaskStatus: Handler = (params) => {
+    const status = this.backgroundTasks.get(jsonStringParam(params, "taskid") ?? "");
+    return status ?? new FakeError(599);
+  };
+
+  private backgroundTaskStop: Handler = (params) => {
+    this.backgroundTasks.delete(jsonStringParam(params, "taskid") ?? "");
+    return {};
+  };
+}
@@ -0,0 +1,84 @@
+import { ApiClient, isConnectionFailure } from "../client";
+import type {
+  DownloadStationBtSearchListRequest,
+  DownloadStationBtSearchResult,
+  DownloadStationBtSearchStartRequest,
+} from "../rest";
+import { SynologyFailureError, sleep } from "./shared";
+
+export interface SearchTorrentsOptions
+  extends Pick<
+    DownloadStationBtSearchListRequest,
+    "sort_by" | "sort_direction" | "filter_category" | "filter_title"
+  > {
+  // Milliseconds between checks for new results. Defaults to 1000.
+  pollInterval?: number;
+  // How many checks in a row may fail to connect before giving up. Defaults to 3.
+  maxConsecutiveConnectionFailures?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES = 3;
+
+// Runs a SYNO.DownloadStation.BTSearch and yields each result as the NAS's search modules find it.
+// Failures are thrown as SynologyFailureError. The search is cleaned up on the NAS however iteration
+// ends, including when the consumer breaks out early or aborts the request's signal.
+//
+// Sorting applies within each batch of new results, not across the whole search: a result found
+// later may well sort before one that has already been yielded.
+export async function* searchTorrents(
+  client: ApiClient,
+  request: DownloadStationBtSearchStartRequest,
+  options: SearchTorrentsOptions = {},
+): AsyncGenerator<DownloadStationBtSearchResult, void, undefined> {
+  const {
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    maxConsecutiveConnectionFailures = DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES,
+    ...listOptions
+  } = options;
+
+  const startResponse = await client.DownloadStation.BTSearch.Start(request);
+  if (isConnectionFailure(startResponse) || !startResponse.success) {
+    throw new SynologyFailureError(startResponse);
+  }
+  const { taskid } = startResponse.data;
+
+  try {
+    // Unlike FileStation searches, results are listed in sorted order, so new ones can show up
+    // anywhere in the list and the whole thing has to be re-read every time.
+    const seenIds = new Set<number>();
+    let consecutiveConnectionFailures = 0;
+    while (true) {
+      const response = await client.DownloadStation.BTSearch.List({
+        ...listOptions,
+        taskid,
+        signal: request.signal,
+      });
+      if (isConnectionFailure(response)) {
+        if (
+          response.type === "cancelled" ||
+          ++consecutiveConnectionFailures >= maxConsecutiveConnectionFailures
+        ) {
+          throw new SynologyFailureError(response);
+        }
+      } else if (!response.success) {
+        throw new SynologyFailureError(response);
+      } else {
+        consecutiveConnectionFailures = 0;
+        for (const item of response.data.items) {
+          if (!seenIds.has(item.id)) {
+            seenIds.add(item.id);
+            yield item;
+          }
+        }
+        if (response.data.finished) {
+          return;
+        }
+      }
+      await sleep(pollInterval, request.signal);
+    }
+  } finally {
+    // Best-effort, as in searchFiles.
+    await client.DownloadStation.BTSearch.Clean({ taskid: [taskid] });
+  }
+}
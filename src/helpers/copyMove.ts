@@ -0,0 +1,143 @@
+import { ApiClient, ConnectionFailure, isConnectionFailure } from "../client";
+import type {
+  FileStationCopyMoveStartRequest,
+  FileStationCopyMoveStatusResponse,
+  SynologyFailureResponse,
+  SynologyResponse,
+} from "../rest";
+import { Broadcaster, sleep } from "./shared";
+
+export type CopyMoveJobResult =
+  | {
+      type: "finished";
+      status: FileStationCopyMoveStatusResponse;
+    }
+  | {
+      type: "cancelled";
+      // The last status seen before cancellation, if any.
+      status: FileStationCopyMoveStatusResponse | undefined;
+    }
+  | {
+      type: "failed";
+      failure: SynologyFailureResponse | ConnectionFailure;
+    };
+
+export interface CopyMoveJobOptions {
+  // Milliseconds between status checks. Defaults to 1000.
+  pollInterval?: number;
+  // How many status checks in a row may fail to connect before the job is considered failed. The
+  // copy may well still be running on the NAS. Defaults to 3.
+  maxConsecutiveConnectionFailures?: number;
+  // Cancels the job when aborted. startCopyMove defaults this to the start request's signal.
+  signal?: AbortSignal;
+}
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES = 3;
+
+// A handle to a running SYNO.FileStation.CopyMove task. Iterate it with `for await` to receive each
+// status update as it's polled; iteration ends when the job does. All requests go through the
+// given ApiClient, so an expired session in the middle of a long copy is handled transparently.
+export class CopyMoveJob implements AsyncIterable<FileStationCopyMoveStatusResponse> {
+  public readonly done: Promise<CopyMoveJobResult>;
+
+  private latestStatus: FileStationCopyMoveStatusResponse | undefined;
+  private updates = new Broadcaster<FileStationCopyMoveStatusResponse>();
+  // Aborted by cancel(), which also cuts short the wait between polls.
+  private cancellation = new AbortController();
+  private stopPromise: Promise<SynologyResponse<{}> | ConnectionFailure> | undefined;
+  private isDone = false;
+  private signal: AbortSignal | undefined;
+
+  constructor(
+    private client: ApiClient,
+    public readonly taskid: string,
+    options: CopyMoveJobOptions = {},
+  ) {
+    this.signal = options.signal;
+    this.done = this.poll(
+      options.pollInterval ?? DEFAULT_POLL_INTERVAL,
+      options.maxConsecutiveConnectionFailures ?? DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES,
+    );
+    if (this.signal?.aborted) {
+      this.cancel();
+    } else {
+      this.signal?.addEventListener("abort", this.onAbort);
+    }
+  }
+
+  public get status() {
+    return this.latestStatus;
+  }
+
+  public [Symbol.asyncIterator]() {
+    return this.updates.subscribe();
+  }
+
+  // Resolves with the response to the stop request. `done` resolves as cancelled regardless. Once
+  // the job is done there's nothing to stop, so this does nothing and resolves to undefined.
+  public cancel(): Promise<SynologyResponse<{}> | ConnectionFailure | undefined> {
+    if (this.isDone) {
+      return Promise.resolve(undefined);
+    } else if (this.stopPromise == null) {
+      this.cancellation.abort();
+      this.stopPromise = this.client.FileStation.CopyMove.stop({ taskid: this.taskid });
+    }
+    return this.stopPromise;
+  }
+
+  private onAbort = () => {
+    this.cancel();
+  };
+
+  private async poll(
+    pollInterval: number,
+    maxConsecutiveConnectionFailures: number,
+  ): Promise<CopyMoveJobResult> {
+    let consecutiveConnectionFailures = 0;
+    try {
+      while (!this.cancellation.signal.aborted) {
+        const response = await this.client.FileStation.CopyMove.status({
+          taskid: this.taskid,
+          signal: this.signal,
+        });
+        if (this.cancellation.signal.aborted) {
+          break;
+        } else if (isConnectionFailure(response)) {
+          if (++consecutiveConnectionFailures >= maxConsecutiveConnectionFailures) {
+            return { type: "failed", failure: response };
+          }
+        } else if (!response.success) {
+          return { type: "failed", failure: response };
+        } else {
+          consecutiveConnectionFailures = 0;
+          this.latestStatus = response.data;
+          this.updates.push(response.data);
+          if (response.data.finished) {
+            return { type: "finished", status: response.data };
+          }
+        }
+        await sleep(pollInterval, this.cancellation.signal);
+      }
+      return { type: "cancelled", status: this.latestStatus };
+    } finally {
+      this.isDone = true;
+      this.signal?.removeEventListener("abort", this.onAbort);
+      this.updates.close();
+    }
+  }
+}
+
+// Resolves with the job handle once the NAS has accepted the task, or with the failure if not.
+export async function startCopyMove(
+  client: ApiClient,
+  request: FileStationCopyMoveStartRequest,
+  options?: CopyMoveJobOptions,
+): Promise<CopyMoveJob | SynologyFailureResponse | ConnectionFailure> {
+  const response = await client.FileStation.CopyMove.start(request);
+  if (isConnectionFailure(response) || !response.success) {
+    return response;
+  } else {
+    return new CopyMoveJob(client, response.data.taskid, { signal: request.signal, ...options });
+  }
+}
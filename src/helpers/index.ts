@@ -0,0 +1,8 @@
+export { SynologyFailureError } from "./shared";
+export * from "./copyMove";
+export * from "./search";
+export * from "./btSearch";
+export * from "./taskFiles";
+export * from "./taskWatcher";
+export * from "./paginate";
+export * from "./logger";
@@ -0,0 +1,138 @@
+import { ApiClient, ApiClientEvent, ConnectionFailure, isConnectionFailure } from "../client";
+import type { SynologyResponse } from "../rest";
+import {
+  LOCAL_REQUEST_KEYS,
+  RequestInterceptor,
+  SynologyApiRequest,
+  isFormFile,
+} from "../rest/shared";
+
+// Anything that would let a reader of the logs act as the account or open what it protects:
+// passwd, password, unzip_password, extract_password, sid, _sid, otp_code, device_id and the like.
+// Matched by name so that parameters added later are covered too.
+const SECRET_PARAM_REGEX = /pass(wd|word)|^_?sid$|otp|device_id|token|secret/i;
+
+export interface LoggerOptions {
+  // Defaults to console.log.
+  log?: (message: string) => void;
+}
+
+function redactParams(params: Record<string, unknown>): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  Object.keys(params).forEach((k) => {
+    const v = params[k];
+    if (v !== undefined && !LOCAL_REQUEST_KEYS.includes(k)) {
+      redacted[k] = SECRET_PARAM_REGEX.test(k)
+        ? "[redacted]"
+        : k === "compound" && typeof v === "string"
+        ? redactCompound(v)
+        : isFormFile(v)
+        ? `<file ${v.filename}>`
+        : v;
+    }
+  });
+  return redacted;
+}
+
+// SYNO.Entry.Request sends its calls as JSON, secrets included.
+function redactCompound(compound: string): unknown {
+  let calls: unknown;
+  try {
+    calls = JSON.parse(compound);
+  } catch (e) {
+    return "[redacted]";
+  }
+  return Array.isArray(calls)
+    ? calls.map((c) => (c != null && typeof c === "object" ? redactParams(c) : c))
+    : "[redacted]";
+}
+
+// The parameters `request` is sent with, safe to log: secrets are replaced with "[redacted]", files
+// with their names, and options that never leave this process are left out.
+export function redactRequest(request: SynologyApiRequest): Record<string, unknown> {
+  return redactParams((request as unknown) as Record<string, unknown>);
+}
+
+function describeRequest(request: SynologyApiRequest) {
+  const { api, method, version, ...params } = redactRequest(request);
+  return `${api} ${method} v${version} ${JSON.stringify(params)}`;
+}
+
+function describeResponse(response: SynologyResponse<unknown> | ConnectionFailure) {
+  if (isConnectionFailure(response)) {
+    return response.type;
+  } else if (response.success) {
+    return "ok";
+  } else {
+    return `error ${response.error.code}`;
+  }
+}
+
+function describeEvent(event: ApiClientEvent) {
+  switch (event.type) {
+    case "request":
+      return `request ${event.requestId}: ${describeRequest(event.request)}`;
+    case "response":
+      return `response ${event.requestId}: ${event.request.api} ${
+        event.request.method
+      }: ${describeResponse(event.response)} (${event.duration}ms)`;
+    case "retry":
+      return event.failure == null
+        ? `retrying attempt ${event.attempt}: ${event.reason}`
+        : `retrying attempt ${event.attempt}: ${event.reason} (${describeResponse(
+            event.failure,
+          )}) in ${Math.round(event.delay)}ms`;
+    case "login":
+      return `${event.restored ? "restored session" : "login"}: ${describeResponse(
+        event.response,
+      )} (${event.duration}ms)`;
+    case "logout":
+      return `logout: ${describeResponse(event.response)} (${event.duration}ms)`;
+  }
+}
+
+// Logs a line for everything `client` does, prefixed with the call it was done for, until the
+// returned function is called.
+export function logClientEvents(client: ApiClient, options: LoggerOptions = {}) {
+  const log = options.log ?? console.log;
+  const listener = (event: ApiClientEvent) => {
+    const callId = "callId" in event ? event.callId : undefined;
+    log(`[${callId == null ? "client" : `call ${callId}`}] ${describeEvent(event)}`);
+  };
+  const unsubscribers = [
+    client.on("request", listener),
+    client.on("response", listener),
+    client.on("retry", listener),
+    client.on("login", listener),
+    client.on("logout", listener),
+  ];
+  return () => {
+    unsubscribers.forEach((u) => {
+      u();
+    });
+  };
+}
+
+// For the REST functions, which have no events: pass it in RequestContext#interceptors.
+export function createRequestLogger(options: LoggerOptions = {}): RequestInterceptor {
+  const log = options.log ?? console.log;
+  let nextRequestId = 1;
+  return async (intercepted, next) => {
+    const { request } = intercepted;
+    const requestId = nextRequestId++;
+    log(`request ${requestId}: ${describeRequest(request)}`);
+    const start = Date.now();
+    const describeOutcome = (outcome: string) =>
+      `response ${requestId}: ${request.api} ${request.method}: ${outcome} (${
+        Date.now() - start
+      }ms)`;
+    try {
+      const response = await next(intercepted);
+      log(describeOutcome(describeResponse(response)));
+      return response;
+    } catch (e) {
+      log(describeOutcome(String(e)));
+      throw e;
+    }
+  };
+}
@@ -0,0 +1,108 @@
+import { ApiClient, ConnectionFailure, isConnectionFailure } from "../client";
+import type {
+  DownloadStationTask,
+  DownloadStationTaskListRequest,
+  FileStationFile,
+  FileStationListListRequest,
+  FileStationListListShareRequest,
+  FileStationSharedFolder,
+  SynologyResponse,
+} from "../rest";
+import { SynologyFailureError } from "./shared";
+
+export interface PaginateOptions {
+  // How many items to request at a time, at least 1. Defaults to 100.
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+interface Page<T> {
+  items: T[];
+  // undefined if the API doesn't report a trustworthy total.
+  total: number | undefined;
+}
+
+// Throws right away, rather than on the first page, if the page size makes no sense.
+function paginate<T>(
+  fetchPage: (
+    offset: number,
+    limit: number,
+  ) => Promise<SynologyResponse<Page<T>> | ConnectionFailure>,
+  options: PaginateOptions,
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  // A limit of 0 means "no limit" to the NAS, so it can't be used to ask for nothing.
+  if (!(pageSize >= 1)) {
+    throw new Error(`pageSize must be at least 1, not ${pageSize}`);
+  }
+  return paginatePages(fetchPage, Math.floor(pageSize));
+}
+
+async function* paginatePages<T>(
+  fetchPage: (
+    offset: number,
+    limit: number,
+  ) => Promise<SynologyResponse<Page<T>> | ConnectionFailure>,
+  pageSize: number,
+): AsyncGenerator<T, void, undefined> {
+  let offset = 0;
+  while (true) {
+    const response = await fetchPage(offset, pageSize);
+    if (isConnectionFailure(response) || !response.success) {
+      throw new SynologyFailureError(response);
+    }
+    const { items, total } = response.data;
+    yield* items;
+    offset += items.length;
+    // A short page is the only reliable sign of the end when there's no total. An empty one always
+    // ends it, whatever the total says, since asking again would get the same page. Note that if
+    // items are added or removed between pages, some may be skipped or repeated.
+    if (items.length === 0 || items.length < pageSize || (total != null && offset >= total)) {
+      return;
+    }
+  }
+}
+
+// Failures are thrown as SynologyFailureError, possibly after some tasks have been yielded.
+export function iterateTasks(
+  client: ApiClient,
+  request: Omit<DownloadStationTaskListRequest, "offset" | "limit"> = {},
+  options: PaginateOptions = {},
+): AsyncGenerator<DownloadStationTask, void, undefined> {
+  return paginate(async (offset, limit) => {
+    const response = await client.DownloadStation.Task.List({ ...request, offset, limit });
+    return isConnectionFailure(response) || !response.success
+      ? response
+      : // See the comment on DownloadStationTaskListResponse: `total` isn't the remote total.
+        { ...response, data: { items: response.data.tasks, total: undefined } };
+  }, options);
+}
+
+// Failures are thrown as SynologyFailureError, possibly after some files have been yielded.
+export function iterateFolder(
+  client: ApiClient,
+  request: Omit<FileStationListListRequest, "offset" | "limit">,
+  options: PaginateOptions = {},
+): AsyncGenerator<FileStationFile, void, undefined> {
+  return paginate(async (offset, limit) => {
+    const response = await client.FileStation.List.list({ ...request, offset, limit });
+    return isConnectionFailure(response) || !response.success
+      ? response
+      : { ...response, data: { items: response.data.files, total: response.data.total } };
+  }, options);
+}
+
+// Failures are thrown as SynologyFailureError, possibly after some shares have been yielded.
+export function iterateShares(
+  client: ApiClient,
+  request: Omit<FileStationListListShareRequest, "offset" | "limit"> = {},
+  options: PaginateOptions = {},
+): AsyncGenerator<FileStationSharedFolder, void, undefined> {
+  return paginate(async (offset, limit) => {
+    const response = await client.FileStation.List.list_share({ ...request, offset, limit });
+    return isConnectionFailure(response) || !response.success
+      ? response
+      : { ...response, data: { items: response.data.shares, total: response.data.total } };
+  }, options);
+}
@@ -0,0 +1,82 @@
+import { ApiClient, isConnectionFailure } from "../client";
+import type {
+  FileStationFile,
+  FileStationFileAdditionalType,
+  FileStationSearchStartRequest,
+} from "../rest";
+import { SynologyFailureError, sleep } from "./shared";
+
+export interface SearchFilesOptions {
+  additional?: FileStationFileAdditionalType[];
+  // Milliseconds between checks for new results. Defaults to 1000.
+  pollInterval?: number;
+  // How many checks in a row may fail to connect before giving up. Defaults to 3.
+  maxConsecutiveConnectionFailures?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES = 3;
+
+// Runs a SYNO.FileStation.Search and yields each result as the NAS finds it. Failures are thrown as
+// SynologyFailureError. The search is stopped and cleaned up on the NAS however iteration ends,
+// including when the consumer breaks out early or aborts the request's signal.
+export async function* searchFiles(
+  client: ApiClient,
+  request: FileStationSearchStartRequest,
+  options: SearchFilesOptions = {},
+): AsyncGenerator<FileStationFile, void, undefined> {
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const maxConsecutiveConnectionFailures =
+    options.maxConsecutiveConnectionFailures ?? DEFAULT_MAX_CONSECUTIVE_CONNECTION_FAILURES;
+
+  const startResponse = await client.FileStation.Search.start(request);
+  if (isConnectionFailure(startResponse) || !startResponse.success) {
+    throw new SynologyFailureError(startResponse);
+  }
+  const { taskid } = startResponse.data;
+
+  let isFinished = false;
+  try {
+    // Results are listed sorted by name, so new ones can show up anywhere in the list and the whole
+    // thing has to be re-read every time, as in searchTorrents.
+    const seenPaths = new Set<string>();
+    let consecutiveConnectionFailures = 0;
+    while (true) {
+      const response = await client.FileStation.Search.list({
+        taskid,
+        additional: options.additional,
+        signal: request.signal,
+      });
+      if (isConnectionFailure(response)) {
+        if (
+          response.type === "cancelled" ||
+          ++consecutiveConnectionFailures >= maxConsecutiveConnectionFailures
+        ) {
+          throw new SynologyFailureError(response);
+        }
+      } else if (!response.success) {
+        throw new SynologyFailureError(response);
+      } else {
+        consecutiveConnectionFailures = 0;
+        isFinished = response.data.finished;
+        for (const file of response.data.files) {
+          if (!seenPaths.has(file.path)) {
+            seenPaths.add(file.path);
+            yield file;
+          }
+        }
+        if (isFinished) {
+          return;
+        }
+      }
+      await sleep(pollInterval, request.signal);
+    }
+  } finally {
+    // Best-effort: there's nothing useful to do if these fail, and the NAS eventually cleans up
+    // abandoned searches on its own. Deliberately not cancellable.
+    if (!isFinished) {
+      await client.FileStation.Search.stop({ taskid });
+    }
+    await client.FileStation.Search.clean({ taskid });
+  }
+}
@@ -0,0 +1,120 @@
+import type { ConnectionFailure } from "../client";
+import type { SynologyFailureResponse } from "../rest";
+
+// Thrown by the iterator-style helpers, which have no other way to report a failed request.
+export class SynologyFailureError extends Error {
+  constructor(public failure: SynologyFailureResponse | ConnectionFailure) {
+    super(
+      "type" in failure
+        ? `connection failure: ${failure.type}`
+        : `request failed with error code ${failure.error.code}`,
+    );
+  }
+}
+
+// Wakes up early if `signal` aborts.
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const wakeUp = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", wakeUp);
+      resolve();
+    };
+    const timer = setTimeout(wakeUp, ms);
+    signal?.addEventListener("abort", wakeUp);
+  });
+}
+
+// Listeners by the `type` of the event they're for. Listeners are called synchronously, and anything
+// they throw is rethrown asynchronously so that it can't break whatever is emitting.
+export class Emitter<E extends { type: string }> {
+  private listeners = new Map<string, ((e: E) => void)[]>();
+
+  // Returns a function that removes the listener.
+  public on<T extends E["type"]>(type: T, listener: (event: Extract<E, { type: T }>) => void) {
+    const listeners = this.listeners.get(type) ?? [];
+    this.listeners.set(type, listeners);
+    // Safe because emit() only calls listeners registered for the event's own type.
+    const untypedListener = listener as (e: E) => void;
+    listeners.push(untypedListener);
+    return () => {
+      const index = listeners.indexOf(untypedListener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public emit(event: E) {
+    // Copy, in case a listener removes itself.
+    (this.listeners.get(event.type) ?? []).slice().forEach((l) => {
+      try {
+        l(event);
+      } catch (e) {
+        setTimeout(() => {
+          throw e;
+        }, 0);
+      }
+    });
+  }
+}
+
+// Fans values out to any number of async iterators. Each iterator sees the values pushed after it
+// was created, buffered until it asks for them, and finishes once the broadcaster is closed.
+export class Broadcaster<T> {
+  private subscribers: {
+    buffer: T[];
+    wakeUp: (() => void) | undefined;
+  }[] = [];
+  private isClosed = false;
+
+  public push(value: T) {
+    this.subscribers.forEach((s) => {
+      s.buffer.push(value);
+      s.wakeUp?.();
+    });
+  }
+
+  public close() {
+    this.isClosed = true;
+    this.subscribers.forEach((s) => {
+      s.wakeUp?.();
+    });
+  }
+
+  public subscribe(): AsyncIterableIterator<T> {
+    const subscriber: Broadcaster<T>["subscribers"][number] = { buffer: [], wakeUp: undefined };
+    this.subscribers.push(subscriber);
+
+    const unsubscribe = () => {
+      this.subscribers = this.subscribers.filter((s) => s !== subscriber);
+    };
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: async () => {
+        while (subscriber.buffer.length === 0 && !this.isClosed) {
+          await new Promise<void>((resolve) => {
+            subscriber.wakeUp = resolve;
+          });
+          subscriber.wakeUp = undefined;
+        }
+        if (subscriber.buffer.length > 0) {
+          return { done: false, value: subscriber.buffer.shift()! };
+        } else {
+          unsubscribe();
+          return { done: true, value: undefined };
+        }
+      },
+      return: async () => {
+        unsubscribe();
+        return { done: true, value: undefined };
+      },
+      [Symbol.asyncIterator]: () => iterator,
+    };
+    return iterator;
+  }
+}
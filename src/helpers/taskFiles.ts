@@ -0,0 +1,30 @@
+import { ApiClient, ConnectionFailure, isConnectionFailure } from "../client";
+import type {
+  DownloadStation2TaskBtFileSetRequest,
+  DownloadStationTaskFile,
+  SynologyFailureResponse,
+} from "../rest";
+
+// Changes the priority and/or wanted flag of some files in a BitTorrent task, then reads back the
+// task's files so the caller sees what the NAS actually did, which isn't always what was asked:
+// for example, a priority of "skip" also clears `wanted`.
+export async function setTaskFiles(
+  client: ApiClient,
+  request: DownloadStation2TaskBtFileSetRequest,
+): Promise<DownloadStationTaskFile[] | SynologyFailureResponse | ConnectionFailure> {
+  const setResponse = await client.DownloadStation2.TaskBtFile.Set(request);
+  if (isConnectionFailure(setResponse) || !setResponse.success) {
+    return setResponse;
+  }
+
+  const infoResponse = await client.DownloadStation.Task.GetInfo({
+    id: [request.task_id],
+    additional: ["file"],
+    signal: request.signal,
+  });
+  if (isConnectionFailure(infoResponse) || !infoResponse.success) {
+    return infoResponse;
+  } else {
+    return infoResponse.data.tasks[0]?.additional?.file ?? [];
+  }
+}
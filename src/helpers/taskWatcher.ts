@@ -0,0 +1,261 @@
+import { ApiClient, ConnectionFailure, isConnectionFailure } from "../client";
+import type {
+  DownloadStationTask,
+  DownloadStationTaskErrorStatus,
+  DownloadStationTaskNormalStatus,
+  SynologyFailureResponse,
+} from "../rest";
+import { Emitter, sleep } from "./shared";
+
+export type TaskWatcherEvent =
+  | {
+      type: "task-added";
+      task: DownloadStationTask;
+    }
+  | {
+      type: "task-removed";
+      // As of the last time it was seen.
+      task: DownloadStationTask;
+    }
+  | {
+      type: "status-changed";
+      task: DownloadStationTask;
+      from: DownloadStationTaskNormalStatus;
+      to: DownloadStationTaskNormalStatus;
+    }
+  | {
+      // The task's status changed to "error". Also reported as a status-changed event.
+      type: "error";
+      task: DownloadStationTask;
+      error: DownloadStationTaskErrorStatus;
+    }
+  | {
+      type: "progress";
+      task: DownloadStationTask;
+      // Bytes.
+      downloaded: number;
+      // 0 to 1, or 0 if the size isn't known yet.
+      fraction: number;
+    }
+  | {
+      // The task finished downloading, even if it's now seeding. Also reported as a status-changed
+      // event.
+      type: "completed";
+      task: DownloadStationTask;
+    }
+  | {
+      // The task list couldn't be fetched. The watcher keeps trying, less and less frequently.
+      type: "poll-failed";
+      failure: SynologyFailureResponse | ConnectionFailure;
+    };
+
+export type TaskWatcherEventType = TaskWatcherEvent["type"];
+
+export type TaskWatcherListener<T extends TaskWatcherEventType> = (
+  event: Extract<TaskWatcherEvent, { type: T }>,
+) => void;
+
+export interface TaskWatcherOptions {
+  // Milliseconds between polls while any task is doing something. Defaults to 2000.
+  activeInterval?: number;
+  // Milliseconds between polls while every task is paused, finished, errored, etc. Defaults to 10000.
+  idleInterval?: number;
+  // The longest the interval will grow to while the NAS can't be reached. Defaults to 60000.
+  maxBackoffInterval?: number;
+  // Stops the watcher for good when aborted.
+  signal?: AbortSignal;
+}
+
+const DEFAULT_ACTIVE_INTERVAL = 2000;
+const DEFAULT_IDLE_INTERVAL = 10000;
+const DEFAULT_MAX_BACKOFF_INTERVAL = 60000;
+
+const ACTIVE_STATUSES: Record<DownloadStationTaskNormalStatus, boolean> = {
+  downloading: true,
+  error: false,
+  extracting: true,
+  filehosting_waiting: true,
+  finished: false,
+  finishing: true,
+  hash_checking: true,
+  paused: false,
+  seeding: false,
+  waiting: true,
+};
+
+function isCompleteStatus(status: DownloadStationTaskNormalStatus) {
+  return status === "finished" || status === "seeding";
+}
+
+function downloadedBytes(task: DownloadStationTask) {
+  return task.additional?.transfer?.size_downloaded ?? 0;
+}
+
+// Polls the DownloadStation task list and reports what changed between polls.
+//
+// The first poll after starting, and after any change to the client's settings, establishes what's
+// already there without reporting it; the tasks as of the latest poll are always available as
+// `tasks`. Listeners are called synchronously, and anything they throw is rethrown asynchronously
+// so it can't break the watcher.
+export class TaskWatcher {
+  private emitter = new Emitter<TaskWatcherEvent>();
+  private knownTasks: Map<string, DownloadStationTask> | undefined;
+  // Aborting this cuts short the current wait between polls.
+  private sleepController: AbortController | undefined;
+  private isRunning = false;
+  // Incremented on every start/stop so that a stale polling loop knows to exit.
+  private runVersion = 0;
+  private unsubscribeFromSettings: (() => void) | undefined;
+  private settingsChangeCount = 0;
+  // Only set while the NAS is unreachable.
+  private backoffInterval: number | undefined;
+
+  private activeInterval: number;
+  private idleInterval: number;
+  private maxBackoffInterval: number;
+  private signal: AbortSignal | undefined;
+
+  constructor(private client: ApiClient, options: TaskWatcherOptions = {}) {
+    this.activeInterval = options.activeInterval ?? DEFAULT_ACTIVE_INTERVAL;
+    this.idleInterval = options.idleInterval ?? DEFAULT_IDLE_INTERVAL;
+    this.maxBackoffInterval = options.maxBackoffInterval ?? DEFAULT_MAX_BACKOFF_INTERVAL;
+    this.signal = options.signal;
+  }
+
+  public get tasks(): DownloadStationTask[] {
+    return Array.from(this.knownTasks?.values() ?? []);
+  }
+
+  public get running() {
+    return this.isRunning;
+  }
+
+  // Returns a function that removes the listener.
+  public on<T extends TaskWatcherEventType>(type: T, listener: TaskWatcherListener<T>) {
+    return this.emitter.on(type, listener);
+  }
+
+  // Does nothing once the signal has aborted.
+  public start() {
+    if (!this.isRunning && !this.signal?.aborted) {
+      this.isRunning = true;
+      this.knownTasks = undefined;
+      // Only while running, so that a stopped watcher isn't kept alive by a long-lived signal.
+      this.signal?.addEventListener("abort", this.onAbort);
+      this.unsubscribeFromSettings = this.client.onSettingsChange(() => {
+        // Whatever the old NAS said no longer applies, and there's no reason to keep waiting out a
+        // backoff that may have been caused by the old settings.
+        this.knownTasks = undefined;
+        this.settingsChangeCount++;
+        this.backoffInterval = undefined;
+        this.sleepController?.abort();
+      });
+      this.poll(++this.runVersion);
+    }
+  }
+
+  public stop() {
+    if (this.isRunning) {
+      this.isRunning = false;
+      this.runVersion++;
+      this.unsubscribeFromSettings?.();
+      this.unsubscribeFromSettings = undefined;
+      this.signal?.removeEventListener("abort", this.onAbort);
+      this.sleepController?.abort();
+    }
+  }
+
+  // Skip the rest of the current wait, e.g. right after adding a task.
+  public pollNow() {
+    this.sleepController?.abort();
+  }
+
+  private onAbort = () => {
+    this.stop();
+  };
+
+  private async poll(runVersion: number) {
+    this.backoffInterval = undefined;
+    while (runVersion === this.runVersion) {
+      const settingsChangeCountAtStart = this.settingsChangeCount;
+      const response = await this.client.DownloadStation.Task.List({
+        additional: ["transfer"],
+        queuePriority: "background",
+        signal: this.signal,
+      });
+      if (runVersion !== this.runVersion) {
+        return;
+      }
+
+      let interval: number;
+      if (isConnectionFailure(response) || !response.success) {
+        this.backoffInterval = Math.min(
+          this.backoffInterval == null ? this.activeInterval : this.backoffInterval * 2,
+          this.maxBackoffInterval,
+        );
+        interval = this.backoffInterval;
+        this.emitter.emit({ type: "poll-failed", failure: response });
+      } else {
+        this.backoffInterval = undefined;
+        const tasks = response.data.tasks;
+        // If the settings changed mid-request, this response may be from the old NAS.
+        if (settingsChangeCountAtStart === this.settingsChangeCount) {
+          this.update(tasks);
+        }
+        interval = tasks.some((t) => ACTIVE_STATUSES[t.status])
+          ? this.activeInterval
+          : this.idleInterval;
+      }
+
+      if (runVersion === this.runVersion) {
+        this.sleepController = new AbortController();
+        await sleep(interval, this.sleepController.signal);
+      }
+    }
+  }
+
+  private update(tasks: DownloadStationTask[]) {
+    const previousTasks = this.knownTasks;
+    this.knownTasks = new Map(tasks.map((t) => [t.id, t]));
+    if (previousTasks == null) {
+      return;
+    }
+
+    tasks.forEach((task) => {
+      const previous = previousTasks.get(task.id);
+      if (previous == null) {
+        this.emitter.emit({ type: "task-added", task });
+        return;
+      }
+
+      if (previous.status !== task.status) {
+        this.emitter.emit({ type: "status-changed", task, from: previous.status, to: task.status });
+        if (task.status === "error") {
+          this.emitter.emit({
+            type: "error",
+            task,
+            error: task.status_extra?.error_detail ?? "unknown",
+          });
+        } else if (isCompleteStatus(task.status) && !isCompleteStatus(previous.status)) {
+          this.emitter.emit({ type: "completed", task });
+        }
+      }
+
+      const downloaded = downloadedBytes(task);
+      if (downloaded !== downloadedBytes(previous)) {
+        this.emitter.emit({
+          type: "progress",
+          task,
+          downloaded,
+          fraction: task.size > 0 ? downloaded / task.size : 0,
+        });
+      }
+    });
+
+    previousTasks.forEach((task, id) => {
+      if (!this.knownTasks!.has(id)) {
+        this.emitter.emit({ type: "task-removed", task });
+      }
+    });
+  }
+}
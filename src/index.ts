@@ -1,2 +1,5 @@
 export * from "./rest";
 export * from "./client";
+export * from "./sessionStore";
+export * from "./helpers";
+export * from "./fake";
@@ -0,0 +1,131 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { parse } from "query-string";
+import type { FakeDiskStation, FakeRequestParams } from "../fake";
+
+export interface FakeDiskStationServerOptions {
+  // Defaults to a random free port.
+  port?: number;
+  // Defaults to the loopback interface.
+  host?: string;
+}
+
+export interface FakeDiskStationServer {
+  // Suitable for use as ApiClientSettings.baseUrl.
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (chunk: Buffer) => {
+      chunks.push(chunk);
+    });
+    request.once("end", () => {
+      resolve(Buffer.concat(chunks));
+    });
+    request.once("error", reject);
+  });
+}
+
+// Deliberately minimal: enough to understand what the transports in this library send.
+function parseMultipart(body: Buffer, boundary: string): FakeRequestParams {
+  const params: FakeRequestParams = {};
+  const delimiter = Buffer.from(`--${boundary}`);
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const partStart = start + delimiter.length + 2; // skip the CRLF after the delimiter
+    const end = body.indexOf(delimiter, partStart);
+    if (end === -1) {
+      break;
+    }
+    const part = body.slice(partStart, end - 2); // drop the CRLF before the next delimiter
+    const headerEnd = part.indexOf("\r\n\r\n");
+    const headers = part.slice(0, headerEnd).toString("utf8");
+    const content = part.slice(headerEnd + 4);
+
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    const filename = /filename="([^"]*)"/.exec(headers)?.[1];
+    const contentType = /content-type:\s*(.+)/i.exec(headers)?.[1]?.trim();
+    if (name != null) {
+      params[name] =
+        filename != null
+          ? { content: new Blob([content], { type: contentType }), filename }
+          : content.toString("utf8");
+    }
+    start = end;
+  }
+
+  return params;
+}
+
+async function parseRequest(request: http.IncomingMessage, url: URL) {
+  const params: FakeRequestParams = {};
+  const query = parse(url.search);
+  Object.keys(query).forEach((k) => {
+    const v = query[k];
+    params[k] = Array.isArray(v) ? v[0] : v ?? "";
+  });
+
+  if (request.method === "POST") {
+    const body = await readBody(request);
+    const contentType = request.headers["content-type"] ?? "";
+    const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+    if (boundary) {
+      Object.assign(params, parseMultipart(body, boundary[1] ?? boundary[2]));
+    } else {
+      const form = parse(body.toString("utf8"));
+      Object.keys(form).forEach((k) => {
+        const v = form[k];
+        params[k] = Array.isArray(v) ? v[0] : v ?? "";
+      });
+    }
+  }
+
+  return params;
+}
+
+// Serve a FakeDiskStation over real HTTP, for exercising transports or non-JS clients.
+export function serveFakeDiskStation(
+  fake: FakeDiskStation,
+  options: FakeDiskStationServerOptions = {},
+): Promise<FakeDiskStationServer> {
+  const server = http.createServer(async (request, response) => {
+    if (fake.takeConnectionFailure() != null) {
+      // There's no way to make a real client time out on demand, so treat both kinds the same.
+      request.socket.destroy();
+      return;
+    }
+
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const { status, headers, body } = fake.respond(
+        url.pathname,
+        await parseRequest(request, url),
+        request.headers as Record<string, string | undefined>,
+      );
+      response.writeHead(status, headers);
+      response.end(Buffer.from(await body.arrayBuffer()));
+    } catch (e) {
+      response.writeHead(500);
+      response.end(String(e));
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      const { address, port } = server.address() as AddressInfo;
+      const host = address.includes(":") ? `[${address}]` : address;
+      resolve({
+        baseUrl: `http://${host}:${port}`,
+        close: () =>
+          new Promise<void>((resolveClose, rejectClose) => {
+            server.close((e) => (e ? rejectClose(e) : resolveClose()));
+          }),
+      });
+    });
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./transport";
+export * from "./fakeServer";
+export * from "./sessionStore";
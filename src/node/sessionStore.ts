@@ -0,0 +1,35 @@
+import { promises as fs } from "fs";
+import { parseStoredSession, SessionStore, StoredSession } from "../sessionStore";
+
+// Keeps the session in a JSON file, readable only by the current user since the sid is as good as
+// a password until it expires. The containing directory must already exist.
+export class FileSessionStore implements SessionStore {
+  constructor(private path: string) {}
+
+  public async load() {
+    let serialized: string;
+    try {
+      serialized = await fs.readFile(this.path, "utf8");
+    } catch (e) {
+      if (e.code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+    return parseStoredSession(serialized);
+  }
+
+  public async save(session: StoredSession) {
+    await fs.writeFile(this.path, JSON.stringify(session), { encoding: "utf8", mode: 0o600 });
+  }
+
+  public async clear() {
+    try {
+      await fs.unlink(this.path);
+    } catch (e) {
+      if (e.code !== "ENOENT") {
+        throw e;
+      }
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { CancelledError } from "./rest";
+import type { RequestPriority } from "./rest";
+
+const PRIORITIES: RequestPriority[] = ["interactive", "normal", "background"];
+
+interface Waiter {
+  start: (release: () => void) => void;
+}
+
+// A limit below 1 would mean that nothing ever runs, and NaN isn't a limit at all.
+function clampLimit(limit: number) {
+  return limit >= 1 ? Math.floor(limit) : 1;
+}
+
+// Limits how many calls run at once. Waiting calls start in order of priority, and first come,
+// first served within the same priority.
+export class RequestQueue {
+  private runningCount = 0;
+  private waiters: Record<RequestPriority, Waiter[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+
+  private limit: number;
+
+  constructor(limit: number) {
+    this.limit = clampLimit(limit);
+  }
+
+  public setLimit(limit: number) {
+    this.limit = clampLimit(limit);
+    this.startWaiters();
+  }
+
+  // Resolves to a function that must be called once the call is done, or to undefined if `timeout`
+  // milliseconds pass before the call's turn comes. Rejects with CancelledError if `signal` aborts
+  // first.
+  public acquire(
+    priority: RequestPriority = "normal",
+    timeout?: number,
+    signal?: AbortSignal,
+  ): Promise<(() => void) | undefined> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CancelledError());
+        return;
+      }
+      const waiters = this.waiters[priority];
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const stopWaiting = () => {
+        if (timer != null) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener("abort", onAbort);
+        const index = waiters.indexOf(waiter);
+        if (index !== -1) {
+          waiters.splice(index, 1);
+          return true;
+        }
+        return false;
+      };
+      const onAbort = () => {
+        if (stopWaiting()) {
+          reject(new CancelledError());
+        }
+      };
+      const waiter: Waiter = {
+        start: (release) => {
+          stopWaiting();
+          resolve(release);
+        },
+      };
+      waiters.push(waiter);
+      if (timeout != null) {
+        timer = setTimeout(() => {
+          if (stopWaiting()) {
+            resolve(undefined);
+          }
+        }, timeout);
+      }
+      signal?.addEventListener("abort", onAbort);
+      this.startWaiters();
+    });
+  }
+
+  private startWaiters() {
+    while (this.runningCount < this.limit) {
+      const waiter = PRIORITIES.map((p) => this.waiters[p])
+        .find((w) => w.length > 0)
+        ?.shift();
+      if (waiter == null) {
+        return;
+      }
+      this.runningCount++;
+      let isReleased = false;
+      waiter.start(() => {
+        if (!isReleased) {
+          isReleased = true;
+          this.runningCount--;
+          this.startWaiters();
+        }
+      });
+    }
+  }
+}
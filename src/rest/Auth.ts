@@ -1,43 +1,103 @@
-import { SynologyResponse, BaseRequest, get, SessionName } from "./shared";
+import {
+  SynologyResponse,
+  BaseRequest,
+  RequestContext,
+  get,
+  parseResponse,
+  resolveApi,
+  SessionName,
+} from "./shared";
+import { Schema } from "./schema";
 
 const CGI_NAME = "auth" as const;
 const API_NAME = "SYNO.API.Auth" as const;
+const LOGIN_VERSIONS = { minVersion: 2, maxVersion: 6 };
+// Older versions silently ignore the device token parameters, which would leave the caller being
+// asked for an OTP on every login.
+const DEVICE_TOKEN_LOGIN_VERSIONS = { minVersion: 6, maxVersion: 6 };
+const LOGOUT_VERSIONS = { minVersion: 1, maxVersion: 3 };
 
 export interface AuthLoginRequest extends BaseRequest {
   account: string;
   passwd: string;
   session: SessionName;
+  // The current code from the account's authenticator app, if it has 2-step verification enabled.
+  otp_code?: string;
+  // Ask for a device token along with the session, so that later logins from this device can skip
+  // the OTP by passing it back as `device_id`. These last three need version 6 of the API; with any
+  // of them set, logging in to a NAS without it fails with UnsupportedApiError.
+  enable_device_token?: boolean;
+  // Shown to the user in DSM's list of trusted devices.
+  device_name?: string;
+  // A `did` from an earlier login.
+  device_id?: string;
 }
 
 export interface AuthLoginResponse {
   sid: string;
+  // Only present if `enable_device_token` was set.
+  did?: string;
 }
 
+const LOGIN_SCHEMA = Schema.object<AuthLoginResponse>({
+  sid: Schema.string(),
+  did: Schema.optional(Schema.string()),
+});
+
 export interface AuthLogoutRequest extends BaseRequest {
   sid: string;
   session: SessionName;
 }
 
-function Login(
+async function Login(
   baseUrl: string,
   options: AuthLoginRequest,
+  context?: RequestContext,
 ): Promise<SynologyResponse<AuthLoginResponse>> {
-  return get(baseUrl, CGI_NAME, {
-    ...options,
-    api: API_NAME,
-    method: "login",
-    version: 2,
-    format: "sid",
-  });
+  const { enable_device_token, ...restOptions } = options;
+  const usesDeviceToken =
+    enable_device_token != null || options.device_name != null || options.device_id != null;
+  const { cgi, version } = await resolveApi(
+    context,
+    API_NAME,
+    CGI_NAME,
+    usesDeviceToken ? DEVICE_TOKEN_LOGIN_VERSIONS : LOGIN_VERSIONS,
+  );
+  const response = await get(
+    baseUrl,
+    cgi,
+    {
+      ...restOptions,
+      enable_device_token:
+        enable_device_token == null ? undefined : enable_device_token ? "yes" : "no",
+      api: API_NAME,
+      method: "login",
+      version,
+      format: "sid",
+    },
+    context,
+  );
+  return parseResponse(response, LOGIN_SCHEMA, API_NAME, "login", context);
 }
 
-function Logout(baseUrl: string, options: AuthLogoutRequest): Promise<SynologyResponse<{}>> {
-  return get(baseUrl, CGI_NAME, {
-    ...options,
-    api: API_NAME,
-    version: 1,
-    method: "logout",
-  });
+async function Logout(
+  baseUrl: string,
+  options: AuthLogoutRequest,
+  context?: RequestContext,
+): Promise<SynologyResponse<{}>> {
+  const { cgi, version } = await resolveApi(context, API_NAME, CGI_NAME, LOGOUT_VERSIONS);
+  const response = await get(
+    baseUrl,
+    cgi,
+    {
+      ...options,
+      api: API_NAME,
+      version,
+      method: "logout",
+    },
+    context,
+  );
+  return parseResponse(response, Schema.empty(), API_NAME, "logout", context);
 }
 
 export const Auth = {
@@ -1,4 +1,15 @@
-import { ApiBuilder, BaseRequest, FormFile, SynologyResponse, get, post } from "./shared";
+import {
+  ApiBuilder,
+  BaseRequest,
+  FormFile,
+  RequestContext,
+  SynologyResponse,
+  get,
+  post,
+  parseResponse,
+  resolveApi,
+} from "./shared";
+import { Schema } from "./schema";
 
 // ------------------------------------------------------------------------- //
 //                                   Info                                    //
@@ -24,6 +35,26 @@ export interface DownloadStationInfoConfig {
   emule_default_destination: string;
 }
 
+const INFO_SCHEMA = Schema.object<DownloadStationInfoGetInfoResponse>({
+  is_manager: Schema.boolean(),
+  version: Schema.number(),
+  version_string: Schema.string(),
+});
+
+const CONFIG_SCHEMA = Schema.object<DownloadStationInfoConfig>({
+  bt_max_download: Schema.number(),
+  bt_max_upload: Schema.number(),
+  emule_max_download: Schema.number(),
+  emule_max_upload: Schema.number(),
+  nzb_max_download: Schema.number(),
+  http_max_download: Schema.number(),
+  ftp_max_download: Schema.number(),
+  emule_enabled: Schema.boolean(),
+  unzip_service_enabled: Schema.boolean(),
+  default_destination: Schema.string(),
+  emule_default_destination: Schema.string(),
+});
+
 const INFO_API_NAME = "SYNO.DownloadStation.Info" as const;
 const infoBuilder = new ApiBuilder("DownloadStation/info", INFO_API_NAME);
 
@@ -32,17 +63,19 @@ const Info = {
   GetInfo: infoBuilder.makeGet<BaseRequest, DownloadStationInfoGetInfoResponse>(
     "getinfo",
     undefined,
-    undefined,
+    INFO_SCHEMA,
     true,
   ),
   GetConfig: infoBuilder.makeGet<BaseRequest, DownloadStationInfoConfig>(
     "getconfig",
     undefined,
-    undefined,
+    CONFIG_SCHEMA,
     true,
   ),
   SetServerConfig: infoBuilder.makeGet<Partial<DownloadStationInfoConfig> & BaseRequest, {}>(
     "setserverconfig",
+    undefined,
+    Schema.empty(),
   ),
 };
 
@@ -55,6 +88,11 @@ export interface DownloadStationScheduleConfig {
   emule_enabled: boolean;
 }
 
+const SCHEDULE_CONFIG_SCHEMA = Schema.object<DownloadStationScheduleConfig>({
+  enabled: Schema.boolean(),
+  emule_enabled: Schema.boolean(),
+});
+
 const SCHEDULE_API_NAME = "SYNO.DownloadStation.Schedule" as const;
 const scheduleBuilder = new ApiBuilder("DownloadStation/schedule", SCHEDULE_API_NAME);
 
@@ -63,11 +101,13 @@ const Schedule = {
   GetConfig: scheduleBuilder.makeGet<BaseRequest, DownloadStationScheduleConfig>(
     "getconfig",
     undefined,
-    undefined,
+    SCHEDULE_CONFIG_SCHEMA,
     true,
   ),
   SetConfig: scheduleBuilder.makeGet<Partial<DownloadStationScheduleConfig> & BaseRequest, {}>(
     "setconfig",
+    undefined,
+    Schema.empty(),
   ),
 };
 
@@ -82,6 +122,13 @@ export interface DownloadStationStatisticGetInfoResponse {
   emule_speed_upload?: number;
 }
 
+const STATISTIC_SCHEMA = Schema.object<DownloadStationStatisticGetInfoResponse>({
+  speed_download: Schema.number(),
+  speed_upload: Schema.number(),
+  emule_speed_download: Schema.optional(Schema.number()),
+  emule_speed_upload: Schema.optional(Schema.number()),
+});
+
 const STATISTIC_API_NAME = "SYNO.DownloadStation.Statistic" as const;
 const statisticsBuilder = new ApiBuilder("DownloadStation/statistic", STATISTIC_API_NAME);
 
@@ -90,7 +137,7 @@ const Statistic = {
   GetInfo: statisticsBuilder.makeGet<BaseRequest, DownloadStationStatisticGetInfoResponse>(
     "getinfo",
     undefined,
-    undefined,
+    STATISTIC_SCHEMA,
     true,
   ),
 };
@@ -276,97 +323,156 @@ export interface DownloadStationTaskEditRequest extends BaseRequest {
   destination?: string;
 }
 
+const TASK_TYPE_SCHEMA = Schema.oneOf<DownloadStationTask["type"]>([
+  "bt",
+  "nzb",
+  "http",
+  "ftp",
+  "emule",
+]);
+
+const TASK_ADDITIONAL_SCHEMA = Schema.object<NonNullable<DownloadStationTask["additional"]>>({
+  detail: Schema.optional(
+    Schema.object<DownloadStationTaskDetail>({
+      completed_time: Schema.number(),
+      connected_leechers: Schema.number(),
+      connected_peers: Schema.number(),
+      connected_seeders: Schema.number(),
+      create_time: Schema.number(),
+      destination: Schema.string(),
+      seedelapsed: Schema.number(),
+      started_time: Schema.number(),
+      total_peers: Schema.number(),
+      total_pieces: Schema.number(),
+      unzip_password: Schema.string(),
+      uri: Schema.string(),
+      waiting_seconds: Schema.number(),
+    }),
+  ),
+  file: Schema.optional(
+    Schema.array(
+      Schema.object<DownloadStationTaskFile>({
+        filename: Schema.string(),
+        index: Schema.number(),
+        priority: Schema.oneOf(["skip", "low", "normal", "high"]),
+        size: Schema.number(),
+        size_downloaded: Schema.number(),
+        wanted: Schema.boolean(),
+      }),
+    ),
+  ),
+  peer: Schema.optional(
+    Schema.array(
+      Schema.object<DownloadStationTaskPeer>({
+        address: Schema.string(),
+        agent: Schema.string(),
+        progress: Schema.number(),
+        speed_download: Schema.number(),
+        speed_upload: Schema.number(),
+      }),
+    ),
+  ),
+  tracker: Schema.optional(
+    Schema.array(
+      Schema.object<DownloadStationTaskTracker>({
+        peers: Schema.number(),
+        seeds: Schema.number(),
+        status: Schema.string(),
+        update_timer: Schema.number(),
+        url: Schema.string(),
+      }),
+    ),
+  ),
+  transfer: Schema.optional(
+    Schema.object<DownloadStationTaskTransfer>({
+      downloaded_pieces: Schema.number(),
+      size_downloaded: Schema.number(),
+      size_uploaded: Schema.number(),
+      speed_download: Schema.number(),
+      speed_upload: Schema.number(),
+    }),
+  ),
+});
+
+// The schema for DownloadStationTask, checking `status` with the given schema. For APIs that report
+// tasks in the same shape but encode their status differently, such as DownloadStation2.
+export function makeDownloadStationTaskSchema(
+  status: Schema<DownloadStationTaskNormalStatus>,
+): Schema<DownloadStationTask> {
+  return Schema.object<DownloadStationTask>({
+    id: Schema.string(),
+    type: TASK_TYPE_SCHEMA,
+    username: Schema.string(),
+    title: Schema.string(),
+    size: Schema.number(),
+    status,
+    status_extra: Schema.optional(
+      Schema.object<NonNullable<DownloadStationTask["status_extra"]>>({
+        error_detail: Schema.oneOf(ALL_TASK_ERROR_STATUSES, "task error status"),
+        unzip_progress: Schema.optional(Schema.number()),
+      }),
+    ),
+    additional: Schema.optional(TASK_ADDITIONAL_SCHEMA),
+  });
+}
+
+const TASK_SCHEMA = makeDownloadStationTaskSchema(
+  Schema.oneOf(ALL_TASK_NORMAL_STATUSES, "task status"),
+);
+
+const TASK_ACTION_SCHEMA = Schema.array(
+  Schema.object<DownloadStationTaskActionResponse[number]>({
+    id: Schema.string(),
+    error: Schema.number(),
+  }),
+);
+
 const TASK_CGI_NAME = "DownloadStation/task" as const;
 const TASK_API_NAME = "SYNO.DownloadStation.Task" as const;
+const TASK_VERSIONS = { minVersion: 1, maxVersion: 1 };
 
-const taskBuilder = new ApiBuilder(TASK_CGI_NAME, TASK_API_NAME);
+const taskBuilder = new ApiBuilder(TASK_CGI_NAME, TASK_API_NAME, TASK_VERSIONS);
 
-function Task_Create(
+async function Task_Create(
   baseUrl: string,
   sid: string,
   options: DownloadStationTaskCreateRequest,
+  context?: RequestContext,
 ): Promise<SynologyResponse<{}>> {
   if (options.file && options.uri) {
     throw new Error("cannot specify both a file and a uri argument to Create");
   }
+  const { cgi, version } = await resolveApi(context, TASK_API_NAME, TASK_CGI_NAME, TASK_VERSIONS);
   const commonOptions = {
     ...options,
     api: TASK_API_NAME,
-    version: 1,
+    version,
     method: "create",
     sid,
     file: undefined,
     uri: undefined,
   };
 
-  if (options.file) {
-    return post(baseUrl, TASK_CGI_NAME, {
-      ...commonOptions,
-      file: options.file,
-    });
-  } else {
-    return get(baseUrl, TASK_CGI_NAME, {
-      ...commonOptions,
-      uri: options.uri && options.uri.length ? options.uri.join(",") : undefined,
-    });
-  }
-}
-
-function fixTaskNumericTypes(task: DownloadStationTask): DownloadStationTask {
-  function sideEffectCastNumbers<T extends object, K extends keyof T>(
-    obj: T | null | undefined,
-    keys: Extract<keyof T, T[K] extends number ? K : never>[],
-  ): void {
-    if (obj != null) {
-      keys.forEach((k) => {
-        if (obj[k] != null) {
-          // We don't expect any of these values to be greater than Number.MAX_SAFE_INTEGER, so this is safe.
-          // If they are, so be it: you have a 9 quadrillion byte download, so you probably have other problems.
-          obj[k] = +obj[k] as any;
-        }
-      });
-    }
-  }
-
-  const output = { ...task };
-  sideEffectCastNumbers(output, ["size"]);
-  if (output.additional) {
-    sideEffectCastNumbers(output.additional.detail, [
-      "completed_time",
-      "connected_leechers",
-      "connected_peers",
-      "connected_seeders",
-      "create_time",
-      "seedelapsed",
-      "started_time",
-      "total_peers",
-      "total_pieces",
-      "waiting_seconds",
-    ]);
-    if (output.additional.file) {
-      output.additional.file.forEach((f) => {
-        sideEffectCastNumbers(f, ["index", "size", "size_downloaded"]);
-      });
-    }
-    if (output.additional.peer) {
-      output.additional.peer.forEach((p) => {
-        sideEffectCastNumbers(p, ["progress", "speed_download", "speed_upload"]);
-      });
-    }
-    if (output.additional.tracker) {
-      output.additional.tracker.forEach((t) => {
-        sideEffectCastNumbers(t, ["peers", "seeds", "update_timer"]);
-      });
-    }
-    sideEffectCastNumbers(output.additional.transfer, [
-      "downloaded_pieces",
-      "size_downloaded",
-      "size_uploaded",
-      "speed_download",
-      "speed_upload",
-    ]);
-  }
-  return output;
+  const response = options.file
+    ? await post(
+        baseUrl,
+        cgi,
+        {
+          ...commonOptions,
+          file: options.file,
+        },
+        context,
+      )
+    : await get(
+        baseUrl,
+        cgi,
+        {
+          ...commonOptions,
+          uri: options.uri && options.uri.length ? options.uri.join(",") : undefined,
+        },
+        context,
+      );
+  return parseResponse(response, Schema.empty(), TASK_API_NAME, "create", context);
 }
 
 const Task = {
@@ -377,33 +483,322 @@ const Task = {
       ...o,
       additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
     }),
-    (r) => ({ ...r, tasks: (r.tasks || []).map(fixTaskNumericTypes) }),
+    Schema.object<DownloadStationTaskListResponse>({
+      total: Schema.number(),
+      offset: Schema.number(),
+      tasks: Schema.withDefault(Schema.array(TASK_SCHEMA), () => []),
+    }),
     true,
   ),
   GetInfo: taskBuilder.makeGet<
     DownloadStationTaskGetInfoRequest,
     DownloadStationTaskGetInfoResponse
-  >("getinfo", (o) => ({
-    ...o,
-    id: o.id.join(","),
-    additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
-  })),
+  >(
+    "getinfo",
+    (o) => ({
+      ...o,
+      id: o.id.join(","),
+      additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
+    }),
+    Schema.object<DownloadStationTaskGetInfoResponse>({
+      tasks: Schema.withDefault(Schema.array(TASK_SCHEMA), () => []),
+    }),
+  ),
   Create: Task_Create,
   Delete: taskBuilder.makeGet<DownloadStationTaskDeleteRequest, DownloadStationTaskActionResponse>(
     "delete",
     (o) => ({ ...o, id: o.id.join(",") }),
+    TASK_ACTION_SCHEMA,
   ),
   Pause: taskBuilder.makeGet<
     DownloadStationTaskPauseResumeRequest,
     DownloadStationTaskActionResponse
-  >("pause", (o) => ({ ...o, id: o.id.join(",") })),
+  >("pause", (o) => ({ ...o, id: o.id.join(",") }), TASK_ACTION_SCHEMA),
   Resume: taskBuilder.makeGet<
     DownloadStationTaskPauseResumeRequest,
     DownloadStationTaskActionResponse
-  >("resume", (o) => ({ ...o, id: o.id.join(",") })),
+  >("resume", (o) => ({ ...o, id: o.id.join(",") }), TASK_ACTION_SCHEMA),
   Edit: taskBuilder.makeGet<DownloadStationTaskEditRequest, DownloadStationTaskActionResponse>(
     "edit",
     (o) => ({ ...o, id: o.id.join(",") }),
+    TASK_ACTION_SCHEMA,
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                    RSS                                    //
+// ------------------------------------------------------------------------- //
+
+export interface DownloadStationRssSiteListRequest extends BaseRequest {
+  offset?: number;
+  limit?: number;
+}
+
+export interface DownloadStationRssSite {
+  id: number;
+  is_updating: boolean;
+  title: string;
+  url: string;
+  // Seconds since the epoch.
+  last_update: number;
+  username: string;
+}
+
+export interface DownloadStationRssSiteListResponse {
+  total: number;
+  offset: number;
+  sites: DownloadStationRssSite[];
+}
+
+export interface DownloadStationRssSiteRefreshRequest extends BaseRequest {
+  id: number[];
+}
+
+const RSS_SITE_API_NAME = "SYNO.DownloadStation.RSS.Site" as const;
+const rssSiteBuilder = new ApiBuilder("DownloadStation/RSSsite", RSS_SITE_API_NAME);
+
+const RSS_SITE_LIST_SCHEMA = Schema.object<DownloadStationRssSiteListResponse>({
+  total: Schema.number(),
+  offset: Schema.number(),
+  sites: Schema.withDefault(
+    Schema.array(
+      Schema.object<DownloadStationRssSite>({
+        id: Schema.number(),
+        is_updating: Schema.boolean(),
+        title: Schema.string(),
+        url: Schema.string(),
+        last_update: Schema.number(),
+        username: Schema.string(),
+      }),
+    ),
+    () => [],
+  ),
+});
+
+const RssSite = {
+  API_NAME: RSS_SITE_API_NAME,
+  List: rssSiteBuilder.makeGet<
+    DownloadStationRssSiteListRequest,
+    DownloadStationRssSiteListResponse
+  >("list", undefined, RSS_SITE_LIST_SCHEMA, true),
+  // Asks the NAS to re-fetch the sites in the background. Check `is_updating` to see when it's done.
+  Refresh: rssSiteBuilder.makeGet<DownloadStationRssSiteRefreshRequest, {}>(
+    "refresh",
+    (o) => ({
+      ...o,
+      id: o.id.join(","),
+    }),
+    Schema.empty(),
+  ),
+};
+
+export interface DownloadStationRssFeedListRequest extends BaseRequest {
+  // The site to list items from.
+  id: number;
+  offset?: number;
+  limit?: number;
+}
+
+export interface DownloadStationRssFeedItem {
+  title: string;
+  // Bytes.
+  size: number;
+  // Seconds since the epoch.
+  time: number;
+  // Suitable for passing as-is in the `uri` list of Task.Create.
+  download_uri: string;
+  // The item's web page, if the feed provides one.
+  external_link: string;
+}
+
+export interface DownloadStationRssFeedListResponse {
+  total: number;
+  offset: number;
+  feeds: DownloadStationRssFeedItem[];
+}
+
+const RSS_FEED_API_NAME = "SYNO.DownloadStation.RSS.Feed" as const;
+const rssFeedBuilder = new ApiBuilder("DownloadStation/RSSfeed", RSS_FEED_API_NAME);
+
+const RSS_FEED_LIST_SCHEMA = Schema.object<DownloadStationRssFeedListResponse>({
+  total: Schema.number(),
+  offset: Schema.number(),
+  feeds: Schema.withDefault(
+    Schema.array(
+      Schema.object<DownloadStationRssFeedItem>({
+        title: Schema.string(),
+        size: Schema.number(),
+        time: Schema.number(),
+        download_uri: Schema.string(),
+        external_link: Schema.string(),
+      }),
+    ),
+    () => [],
+  ),
+});
+
+const RssFeed = {
+  API_NAME: RSS_FEED_API_NAME,
+  List: rssFeedBuilder.makeGet<
+    DownloadStationRssFeedListRequest,
+    DownloadStationRssFeedListResponse
+  >("list", undefined, RSS_FEED_LIST_SCHEMA),
+};
+
+// ------------------------------------------------------------------------- //
+//                                 BTSearch                                  //
+// ------------------------------------------------------------------------- //
+
+export interface DownloadStationBtSearchStartRequest extends BaseRequest {
+  keyword: string;
+  // Search modules to use. "enabled" (the default) means every module enabled on the NAS.
+  module?: string;
+}
+
+export interface DownloadStationBtSearchStartResponse {
+  taskid: string;
+}
+
+export type DownloadStationBtSearchSortBy =
+  | "title"
+  | "size"
+  | "date"
+  | "peers"
+  | "provider"
+  | "seeds"
+  | "leechs";
+
+export interface DownloadStationBtSearchListRequest extends BaseRequest {
+  taskid: string;
+  offset?: number;
+  limit?: number;
+  sort_by?: DownloadStationBtSearchSortBy;
+  sort_direction?: "asc" | "desc";
+  // A category ID, as returned by getCategory.
+  filter_category?: string;
+  filter_title?: string;
+}
+
+export interface DownloadStationBtSearchResult {
+  id: number;
+  title: string;
+  // Suitable for passing as-is to DownloadStation.Task.Create or DownloadStation2.Task.Create.
+  dlurl: string;
+  // The result's web page on the provider's site.
+  external_link: string;
+  // Bytes.
+  size: number;
+  // YYYY-MM-DD HH:MM:SS, in the NAS's time zone.
+  date: string;
+  peers: number;
+  seeds: number;
+  leechs: number;
+  provider: string;
+  category?: string;
+}
+
+export interface DownloadStationBtSearchListResponse {
+  // Results keep arriving from the various modules until this is true.
+  finished: boolean;
+  total: number;
+  offset: number;
+  items: DownloadStationBtSearchResult[];
+}
+
+export interface DownloadStationBtSearchCleanRequest extends BaseRequest {
+  taskid: string[];
+}
+
+export interface DownloadStationBtSearchCategory {
+  id: string;
+  title: string;
+}
+
+export interface DownloadStationBtSearchModule {
+  id: string;
+  title: string;
+  enabled: boolean;
+}
+
+const BT_SEARCH_API_NAME = "SYNO.DownloadStation.BTSearch" as const;
+const btSearchBuilder = new ApiBuilder("DownloadStation/btsearch", BT_SEARCH_API_NAME);
+
+const BT_SEARCH_LIST_SCHEMA = Schema.object<DownloadStationBtSearchListResponse>({
+  finished: Schema.boolean(),
+  total: Schema.number(),
+  offset: Schema.number(),
+  items: Schema.withDefault(
+    Schema.array(
+      Schema.object<DownloadStationBtSearchResult>({
+        id: Schema.number(),
+        title: Schema.string(),
+        dlurl: Schema.string(),
+        external_link: Schema.string(),
+        size: Schema.number(),
+        date: Schema.string(),
+        peers: Schema.number(),
+        seeds: Schema.number(),
+        leechs: Schema.number(),
+        provider: Schema.string(),
+        category: Schema.optional(Schema.string()),
+      }),
+    ),
+    () => [],
+  ),
+});
+
+const BTSearch = {
+  API_NAME: BT_SEARCH_API_NAME,
+  Start: btSearchBuilder.makeGet<
+    DownloadStationBtSearchStartRequest,
+    DownloadStationBtSearchStartResponse
+  >(
+    "start",
+    (o) => ({ ...o, module: o.module ?? "enabled" }),
+    Schema.object<DownloadStationBtSearchStartResponse>({ taskid: Schema.string() }),
+  ),
+  List: btSearchBuilder.makeGet<
+    DownloadStationBtSearchListRequest,
+    DownloadStationBtSearchListResponse
+  >("list", undefined, BT_SEARCH_LIST_SCHEMA),
+  GetCategory: btSearchBuilder.makeGet<
+    BaseRequest,
+    { categories: DownloadStationBtSearchCategory[] }
+  >(
+    "getCategory",
+    undefined,
+    Schema.object<{ categories: DownloadStationBtSearchCategory[] }>({
+      categories: Schema.array(
+        Schema.object<DownloadStationBtSearchCategory>({
+          id: Schema.string(),
+          title: Schema.string(),
+        }),
+      ),
+    }),
+    true,
+  ),
+  // Also stops the search if it's still running.
+  Clean: btSearchBuilder.makeGet<DownloadStationBtSearchCleanRequest, {}>(
+    "clean",
+    (o) => ({
+      ...o,
+      taskid: o.taskid.join(","),
+    }),
+    Schema.empty(),
+  ),
+  GetModule: btSearchBuilder.makeGet<BaseRequest, { modules: DownloadStationBtSearchModule[] }>(
+    "getModule",
+    undefined,
+    Schema.object<{ modules: DownloadStationBtSearchModule[] }>({
+      modules: Schema.array(
+        Schema.object<DownloadStationBtSearchModule>({
+          id: Schema.string(),
+          title: Schema.string(),
+          enabled: Schema.boolean(),
+        }),
+      ),
+    }),
+    true,
   ),
 };
 
@@ -416,4 +811,9 @@ export const DownloadStation = {
   Schedule,
   Statistic,
   Task,
+  RSS: {
+    Site: RssSite,
+    Feed: RssFeed,
+  },
+  BTSearch,
 };
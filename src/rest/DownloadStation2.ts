@@ -1,7 +1,42 @@
-import { BaseRequest, FormFile, SynologyResponse, get, post } from "./shared";
+import {
+  ALL_TASK_NORMAL_STATUSES,
+  DownloadStationTask,
+  DownloadStationTaskAdditionalType,
+  DownloadStationTaskFile,
+  DownloadStationTaskNormalStatus,
+  makeDownloadStationTaskSchema,
+} from "./DownloadStation";
+import {
+  ApiBuilder,
+  BaseRequest,
+  FormFile,
+  LOCAL_REQUEST_KEYS,
+  RequestContext,
+  SynologyResponse,
+  get,
+  parseResponse,
+  post,
+  resolveApi,
+} from "./shared";
+import { Schema } from "./schema";
+
+// Every DownloadStation2 parameter is JSON-encoded, even plain strings and numbers.
+function encodeJsonParams(o: object) {
+  const output: Record<string, unknown> = {};
+  Object.entries(o).forEach(([k, v]) => {
+    // The request layer needs these as-is, and drops them anyway.
+    output[k] = LOCAL_REQUEST_KEYS.includes(k) || v === undefined ? v : JSON.stringify(v);
+  });
+  return output;
+}
+
+// ------------------------------------------------------------------------- //
+//                                   Tasks                                   //
+// ------------------------------------------------------------------------- //
 
 const TASK_API_NAME = "SYNO.DownloadStation2.Task" as const;
 const TASK_CGI_NAME = "entry";
+const TASK_VERSIONS = { minVersion: 2, maxVersion: 2 };
 
 interface BaseDownloadStation2TaskCreateRequest extends BaseRequest {
   create_list?: boolean;
@@ -37,16 +72,23 @@ export interface DownloadStation2TaskCreateResponse {
   task_id: string[];
 }
 
-function Task_Create(
+const TASK_CREATE_SCHEMA = Schema.object<DownloadStation2TaskCreateResponse>({
+  list_id: Schema.withDefault(Schema.array(Schema.string()), () => []),
+  task_id: Schema.withDefault(Schema.array(Schema.string()), () => []),
+});
+
+async function Task_Create(
   baseUrl: string,
   sid: string,
   options: DownloadStation2TaskCreateRequest,
+  context?: RequestContext,
 ): Promise<SynologyResponse<DownloadStation2TaskCreateResponse>> {
+  const { cgi, version } = await resolveApi(context, TASK_API_NAME, TASK_CGI_NAME, TASK_VERSIONS);
   const commonOptions = {
     // These three must come first. I believe they also must be in this order.
     api: TASK_API_NAME,
     method: "create",
-    version: 2,
+    version,
     ...options,
     type: JSON.stringify(options.type),
     // undefined means default location configured on the NAS, which is represented by empty string
@@ -58,31 +100,275 @@ function Task_Create(
     local_path: undefined,
   };
 
+  let response: SynologyResponse<unknown>;
   if (options.type === "file") {
-    return post(baseUrl, TASK_CGI_NAME, {
-      ...commonOptions,
-      file: '["torrent"]',
-      torrent: options.file,
-    });
+    response = await post(
+      baseUrl,
+      cgi,
+      {
+        ...commonOptions,
+        file: '["torrent"]',
+        torrent: options.file,
+      },
+      context,
+    );
   } else if (options.type === "url") {
-    return get(baseUrl, TASK_CGI_NAME, {
-      ...commonOptions,
-      url: JSON.stringify(options.url),
-    });
+    response = await get(
+      baseUrl,
+      cgi,
+      {
+        ...commonOptions,
+        url: JSON.stringify(options.url),
+      },
+      context,
+    );
   } else if (options.type === "local") {
-    return get(baseUrl, TASK_CGI_NAME, {
-      ...commonOptions,
-      // TODO: Unsure if this works. Documentation isn't clear on how it's intended to work.
-      local_path: JSON.stringify(options.local_path),
-    });
+    response = await get(
+      baseUrl,
+      cgi,
+      {
+        ...commonOptions,
+        // TODO: Unsure if this works. Documentation isn't clear on how it's intended to work.
+        local_path: JSON.stringify(options.local_path),
+      },
+      context,
+    );
   } else {
-    return Promise.reject(new Error(`illegal type "${(options as any)?.type}"`));
+    throw new Error(`illegal type "${(options as any)?.type}"`);
   }
+  return parseResponse(response, TASK_CREATE_SCHEMA, TASK_API_NAME, "create", context);
+}
+
+// DownloadStation2 reports status as a number rather than a name.
+const TASK_STATUS_BY_CODE: Record<number, DownloadStationTaskNormalStatus> = {
+  1: "waiting",
+  2: "downloading",
+  3: "paused",
+  4: "finishing",
+  5: "finished",
+  6: "hash_checking",
+  7: "seeding",
+  8: "filehosting_waiting",
+  9: "extracting",
+  10: "error",
+};
+
+// Otherwise, tasks have the same shape as in DownloadStation, and the same caveats apply.
+export type DownloadStation2Task = DownloadStationTask;
+
+const TASK_SCHEMA = makeDownloadStationTaskSchema(
+  Schema.custom<DownloadStationTaskNormalStatus>("task status code", (status) =>
+    typeof status === "number"
+      ? // Unrecognized codes are most likely new kinds of errors.
+        TASK_STATUS_BY_CODE[status] ?? "error"
+      : ALL_TASK_NORMAL_STATUSES.includes(status as DownloadStationTaskNormalStatus)
+      ? (status as DownloadStationTaskNormalStatus)
+      : undefined,
+  ),
+);
+
+export interface DownloadStation2TaskListRequest extends BaseRequest {
+  offset?: number;
+  limit?: number;
+  sort_by?: "title" | "size" | "status" | "created_time" | "type";
+  order?: "ASC" | "DESC";
+  additional?: DownloadStationTaskAdditionalType[];
+}
+
+export interface DownloadStation2TaskListResponse {
+  // Unlike DownloadStation, this is the number of tasks that exist on the remote.
+  total: number;
+  offset: number;
+  task: DownloadStation2Task[];
 }
 
+export interface DownloadStation2TaskGetRequest extends BaseRequest {
+  id: string[];
+  additional?: DownloadStationTaskAdditionalType[];
+}
+
+export interface DownloadStation2TaskGetResponse {
+  task: DownloadStation2Task[];
+}
+
+export interface DownloadStation2TaskDeleteRequest extends BaseRequest {
+  id: string[];
+  force_complete: boolean;
+}
+
+export interface DownloadStation2TaskPauseResumeRequest extends BaseRequest {
+  id: string[];
+}
+
+export interface DownloadStation2TaskEditRequest extends BaseRequest {
+  id: string[];
+  destination: string;
+}
+
+export interface DownloadStation2TaskActionResponse {
+  // Tasks that were acted on successfully are not listed.
+  failed_task: {
+    id: string;
+    error: number;
+  }[];
+}
+
+const TASK_ACTION_SCHEMA = Schema.object<DownloadStation2TaskActionResponse>({
+  failed_task: Schema.withDefault(
+    Schema.array(
+      Schema.object<DownloadStation2TaskActionResponse["failed_task"][number]>({
+        id: Schema.string(),
+        error: Schema.number(),
+      }),
+    ),
+    () => [],
+  ),
+});
+
+const taskBuilder = new ApiBuilder(TASK_CGI_NAME, TASK_API_NAME, TASK_VERSIONS);
+
 const Task = {
   API_NAME: TASK_API_NAME,
+  List: taskBuilder.makeGet<DownloadStation2TaskListRequest, DownloadStation2TaskListResponse>(
+    "list",
+    (o) => encodeJsonParams(o ?? {}),
+    Schema.object<DownloadStation2TaskListResponse>({
+      total: Schema.number(),
+      offset: Schema.number(),
+      task: Schema.withDefault(Schema.array(TASK_SCHEMA), () => []),
+    }),
+    true,
+  ),
+  Get: taskBuilder.makeGet<DownloadStation2TaskGetRequest, DownloadStation2TaskGetResponse>(
+    "get",
+    encodeJsonParams,
+    Schema.object<DownloadStation2TaskGetResponse>({
+      task: Schema.withDefault(Schema.array(TASK_SCHEMA), () => []),
+    }),
+  ),
   Create: Task_Create,
+  Delete: taskBuilder.makeGet<
+    DownloadStation2TaskDeleteRequest,
+    DownloadStation2TaskActionResponse
+  >("delete", encodeJsonParams, TASK_ACTION_SCHEMA),
+  Pause: taskBuilder.makeGet<
+    DownloadStation2TaskPauseResumeRequest,
+    DownloadStation2TaskActionResponse
+  >("pause", encodeJsonParams, TASK_ACTION_SCHEMA),
+  Resume: taskBuilder.makeGet<
+    DownloadStation2TaskPauseResumeRequest,
+    DownloadStation2TaskActionResponse
+  >("resume", encodeJsonParams, TASK_ACTION_SCHEMA),
+  Edit: taskBuilder.makeGet<DownloadStation2TaskEditRequest, DownloadStation2TaskActionResponse>(
+    "edit",
+    encodeJsonParams,
+    TASK_ACTION_SCHEMA,
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                 Task List                                 //
+// ------------------------------------------------------------------------- //
+
+// Creating a task with `create_list: true` doesn't start the download. Instead, it produces a list
+// (identified by one of the `list_id`s in the response) of the files in the torrent, which can be
+// inspected with Get and then confirmed, with a subset of the files selected, with Download.
+
+export interface DownloadStation2TaskListGetRequest extends BaseRequest {
+  list_id: string;
+}
+
+export interface DownloadStation2TaskListFile {
+  index: number;
+  name: string;
+  // Bytes.
+  size: number;
+}
+
+export interface DownloadStation2TaskListGetResponse {
+  title: string;
+  type: DownloadStationTask["type"];
+  size: number;
+  files: DownloadStation2TaskListFile[];
+}
+
+export interface DownloadStation2TaskListDownloadRequest extends BaseRequest {
+  list_id: string;
+  // Indices of the files to download.
+  selected: number[];
+  // undefined means the default location configured on the NAS.
+  destination?: string;
+  create_subfolder?: boolean;
+}
+
+export interface DownloadStation2TaskListDownloadResponse {
+  task_id: string;
+}
+
+const TASK_LIST_GET_SCHEMA = Schema.object<DownloadStation2TaskListGetResponse>({
+  title: Schema.string(),
+  type: Schema.oneOf<DownloadStationTask["type"]>(["bt", "nzb", "http", "ftp", "emule"]),
+  size: Schema.number(),
+  files: Schema.withDefault(
+    Schema.array(
+      Schema.object<DownloadStation2TaskListFile>({
+        index: Schema.number(),
+        name: Schema.string(),
+        size: Schema.number(),
+      }),
+    ),
+    () => [],
+  ),
+});
+
+const TASK_LIST_API_NAME = "SYNO.DownloadStation2.Task.List" as const;
+const taskListBuilder = new ApiBuilder(TASK_CGI_NAME, TASK_LIST_API_NAME, TASK_VERSIONS);
+
+const TaskList = {
+  API_NAME: TASK_LIST_API_NAME,
+  Get: taskListBuilder.makeGet<
+    DownloadStation2TaskListGetRequest,
+    DownloadStation2TaskListGetResponse
+  >("get", encodeJsonParams, TASK_LIST_GET_SCHEMA),
+  Download: taskListBuilder.makeGet<
+    DownloadStation2TaskListDownloadRequest,
+    DownloadStation2TaskListDownloadResponse
+  >(
+    "download",
+    (o) =>
+      encodeJsonParams({
+        ...o,
+        destination: o.destination ?? "",
+        create_subfolder: o.create_subfolder ?? true,
+      }),
+    Schema.object<DownloadStation2TaskListDownloadResponse>({ task_id: Schema.string() }),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                 BT Files                                  //
+// ------------------------------------------------------------------------- //
+
+export interface DownloadStation2TaskBtFileSetRequest extends BaseRequest {
+  task_id: string;
+  // Indices as reported in DownloadStationTaskFile; all of them get the same settings.
+  index: number[];
+  wanted?: boolean;
+  // "skip" is equivalent to `wanted: false`.
+  priority?: DownloadStationTaskFile["priority"];
+}
+
+const TASK_BT_FILE_API_NAME = "SYNO.DownloadStation2.Task.BT.File" as const;
+const taskBtFileBuilder = new ApiBuilder(TASK_CGI_NAME, TASK_BT_FILE_API_NAME, TASK_VERSIONS);
+
+const TaskBtFile = {
+  API_NAME: TASK_BT_FILE_API_NAME,
+  // Only applies to BitTorrent tasks. Use Task.GetInfo with the "file" additional to see the result.
+  Set: taskBtFileBuilder.makeGet<DownloadStation2TaskBtFileSetRequest, {}>(
+    "set",
+    encodeJsonParams,
+    Schema.empty(),
+  ),
 };
 
 // ------------------------------------------------------------------------- //
@@ -91,4 +377,6 @@ const Task = {
 
 export const DownloadStation2 = {
   Task,
+  TaskList,
+  TaskBtFile,
 };
@@ -0,0 +1,369 @@
+import {
+  BaseRequest,
+  LOCAL_REQUEST_KEYS,
+  OutgoingRequest,
+  RequestContext,
+  SynologyApiRequest,
+  SynologyFailureResponse,
+  SynologyResponse,
+  abortable,
+  parseResponse,
+  post,
+  resolveApi,
+} from "./shared";
+import { Schema } from "./schema";
+
+const CGI_NAME = "entry" as const;
+const API_NAME = "SYNO.Entry.Request" as const;
+const VERSIONS = { minVersion: 1, maxVersion: 1 };
+
+// One call of a compound request: the same parameters it would be sent with on its own.
+export interface EntryCompoundCall {
+  api: string;
+  method: string;
+  version: number;
+  [key: string]: string | number | boolean | undefined;
+}
+
+export interface EntryRequestRequest extends BaseRequest {
+  compound: EntryCompoundCall[];
+  // Skip the rest of the calls after the first failure.
+  stop_when_error?: boolean;
+}
+
+export type EntryCompoundResult = SynologyResponse<unknown> & {
+  api: string;
+  method: string;
+  version: number;
+};
+
+export interface EntryRequestResponse {
+  has_fail: boolean;
+  // In the same order as the calls. Shorter than the list of calls if stop_when_error skipped any.
+  result: EntryCompoundResult[];
+}
+
+const REQUEST_SCHEMA = Schema.object<EntryRequestResponse>({
+  has_fail: Schema.boolean(),
+  result: Schema.withDefault(
+    Schema.array(
+      // Only the envelope: each call's data is checked against the schema for that call, if any.
+      Schema.custom<EntryCompoundResult>("compound result", (value) =>
+        value != null && typeof (value as EntryCompoundResult).success === "boolean"
+          ? (value as EntryCompoundResult)
+          : undefined,
+      ),
+    ),
+    () => [],
+  ),
+});
+
+async function request(
+  baseUrl: string,
+  sid: string,
+  options: EntryRequestRequest,
+  context?: RequestContext,
+): Promise<SynologyResponse<EntryRequestResponse>> {
+  const { cgi, version } = await resolveApi(context, API_NAME, CGI_NAME, VERSIONS);
+  // Never batch the batch itself.
+  const { sendRequest, ...directContext } = context ?? {};
+  const response = await post(
+    baseUrl,
+    cgi,
+    {
+      ...options,
+      compound: JSON.stringify(options.compound),
+      api: API_NAME,
+      version,
+      method: "request",
+      sid,
+    },
+    directContext,
+  );
+  return parseResponse(response, REQUEST_SCHEMA, API_NAME, "request", context);
+}
+
+function toCompoundCall(request: SynologyApiRequest): EntryCompoundCall {
+  const call: EntryCompoundCall = {
+    api: request.api,
+    method: request.method,
+    version: request.version,
+  };
+  Object.keys(request).forEach((k) => {
+    const v = request[k];
+    // sid belongs to the compound request.
+    if (
+      k !== "sid" &&
+      !LOCAL_REQUEST_KEYS.includes(k) &&
+      v !== undefined &&
+      typeof v !== "object"
+    ) {
+      call[k] = v;
+    }
+  });
+  return call;
+}
+
+function toResponse(result: EntryCompoundResult | undefined): SynologyResponse<unknown> {
+  if (result == null) {
+    // The NAS didn't say what happened to this call.
+    return { success: false, error: { code: 100 } };
+  }
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: result.error };
+}
+
+// ------------------------------------------------------------------------- //
+//                                  Batches                                  //
+// ------------------------------------------------------------------------- //
+
+// A REST call with everything but the context filled in. See batchCall.
+export type BatchCall<T> = (
+  baseUrl: string,
+  sid: string,
+  context: RequestContext,
+) => Promise<SynologyResponse<T>>;
+
+// e.g. batchCall(DownloadStation.Task.List, { additional: ["transfer"] })
+export function batchCall<I, O>(
+  fn: (
+    baseUrl: string,
+    sid: string,
+    options: I,
+    context?: RequestContext,
+  ) => Promise<SynologyResponse<O>>,
+  options: I,
+): BatchCall<O> {
+  return (baseUrl, sid, context) => fn(baseUrl, sid, options, context);
+}
+
+// For a call that threw rather than producing a response, such as with an UnsupportedApiError or,
+// with RequestContext#strictResponses, a MalformedResponseError.
+export interface BatchCallThrown {
+  thrown: unknown;
+}
+
+// "skipped" if stop_when_error stopped the batch before this call.
+export type BatchResults<T extends BatchCall<unknown>[]> = {
+  [K in keyof T]: T[K] extends BatchCall<infer U>
+    ? SynologyResponse<U> | "skipped" | BatchCallThrown
+    : never;
+};
+
+export interface EntryBatchRequest<T extends BatchCall<unknown>[]> extends BaseRequest {
+  calls: [...T];
+  stop_when_error?: boolean;
+}
+
+// Sends several calls as a single compound request. Each call's response is processed exactly as
+// it would be if the call had been made on its own, and one call throwing doesn't affect the others.
+// The batch as a whole only fails if the compound request does, such as when the session has
+// expired.
+async function batch<T extends BatchCall<unknown>[]>(
+  baseUrl: string,
+  sid: string,
+  options: EntryBatchRequest<T>,
+  context?: RequestContext,
+): Promise<SynologyResponse<BatchResults<T>>> {
+  const { calls, stop_when_error, timeout, signal } = options;
+  const { sendRequest, ...directContext } = context ?? {};
+
+  // Start every call, but intercept the request each one makes instead of sending it.
+  const outgoing: (
+    | {
+        request: SynologyApiRequest;
+        respond: (response: SynologyResponse<unknown>) => void;
+        fail: (error: unknown) => void;
+      }
+    | undefined
+  )[] = calls.map(() => undefined);
+  let pendingCount = calls.length;
+  let onAllPending: () => void;
+  const allPending = new Promise<void>((resolve) => {
+    onAllPending = resolve;
+  });
+  if (pendingCount === 0) {
+    onAllPending!();
+  }
+
+  const results = calls.map((call, i) => {
+    let isPending = false;
+    const markPending = () => {
+      if (!isPending) {
+        isPending = true;
+        if (--pendingCount === 0) {
+          onAllPending();
+        }
+      }
+    };
+    const result = call(baseUrl, sid, {
+      ...directContext,
+      sendRequest: ({ request }: OutgoingRequest) =>
+        new Promise((respond, fail) => {
+          outgoing[i] = { request, respond, fail };
+          markPending();
+        }),
+    });
+    // A call that fails before making its request doesn't hold up the rest.
+    result.then(markPending, markPending);
+    return result;
+  });
+
+  await allPending;
+
+  const sent = outgoing
+    .map((o, i) => (o == null ? undefined : { ...o, index: i }))
+    .filter(<V>(o: V | undefined): o is V => o != null);
+  let response: SynologyResponse<EntryRequestResponse>;
+  try {
+    response = await request(
+      baseUrl,
+      sid,
+      { compound: sent.map((o) => toCompoundCall(o.request)), stop_when_error, timeout, signal },
+      directContext,
+    );
+  } catch (e) {
+    // Settle the calls so that they don't hang, even though nothing will look at them.
+    results.forEach((r) => {
+      r.catch(() => undefined);
+    });
+    sent.forEach((o) => {
+      o.fail(e);
+    });
+    throw e;
+  }
+
+  if (!response.success) {
+    // Unblock the calls even though nothing will look at their responses.
+    sent.forEach((o) => {
+      o.respond(response);
+    });
+    return response;
+  }
+
+  const skipped = new Set<number>();
+  // Skipped calls still have to be unblocked; their responses are replaced with "skipped" below.
+  const skippedFailure: SynologyFailureResponse = { success: false, error: { code: 100 } };
+  const compoundResults = response.data.result;
+  sent.forEach((o, i) => {
+    const result = compoundResults[i];
+    if (result == null) {
+      skipped.add(o.index);
+      o.respond(skippedFailure);
+    } else {
+      o.respond(toResponse(result));
+    }
+  });
+
+  const settled = await Promise.allSettled(results);
+  const data = settled.map((r, i): SynologyResponse<unknown> | "skipped" | BatchCallThrown =>
+    skipped.has(i) ? "skipped" : r.status === "fulfilled" ? r.value : { thrown: r.reason },
+  );
+  return { success: true, data: data as BatchResults<T> };
+}
+
+// ------------------------------------------------------------------------- //
+//                              Auto-batching                                //
+// ------------------------------------------------------------------------- //
+
+const UNBATCHABLE_APIS = ["SYNO.API.Auth", "SYNO.API.Info", API_NAME];
+
+// Use its sendRequest as RequestContext#sendRequest to send all the requests made in the same tick
+// to the same NAS with the same session as a single compound request. Requests are never stopped
+// early on account of another's failure, and aborting one request's signal only abandons that
+// request.
+//
+// The compound request goes out through the first request's transport and interceptors, with the
+// largest of the timeouts. Its signal is never shared, and each response is still checked with
+// its own request's strictResponses. Only coalesce requests whose contexts otherwise agree, as
+// ApiClient's do.
+export class RequestCoalescer {
+  private queues = new Map<string, OutgoingRequest[]>();
+  private responders = new Map<
+    OutgoingRequest,
+    { resolve: (r: Promise<SynologyResponse<unknown>>) => void; reject: (e: unknown) => void }
+  >();
+
+  public sendRequest = (outgoing: OutgoingRequest): Promise<SynologyResponse<unknown>> => {
+    const { baseUrl, request } = outgoing;
+    if (request.sid == null || UNBATCHABLE_APIS.includes(request.api)) {
+      return outgoing.send();
+    }
+
+    const key = JSON.stringify([baseUrl, request.sid]);
+    let queue = this.queues.get(key);
+    if (queue == null) {
+      queue = [];
+      this.queues.set(key, queue);
+      setTimeout(() => {
+        this.flush(key);
+      }, 0);
+    }
+    queue.push(outgoing);
+    return abortable(
+      new Promise((resolve, reject) => {
+        this.responders.set(outgoing, { resolve, reject });
+      }),
+      request.signal,
+    );
+  };
+
+  private flush(key: string) {
+    const queue = this.queues.get(key)!;
+    this.queues.delete(key);
+    const respond = (o: OutgoingRequest, response: Promise<SynologyResponse<unknown>>) => {
+      this.responders.get(o)!.resolve(response);
+      this.responders.delete(o);
+    };
+
+    try {
+      this.send(queue, respond);
+    } catch (e) {
+      // Every queued caller is waiting on this flush, so none of them may be left hanging.
+      queue.forEach((o) => {
+        this.responders.get(o)?.reject(e);
+        this.responders.delete(o);
+      });
+    }
+  }
+
+  private send(
+    queue: OutgoingRequest[],
+    respond: (o: OutgoingRequest, response: Promise<SynologyResponse<unknown>>) => void,
+  ) {
+    if (queue.length === 1) {
+      respond(queue[0], queue[0].send());
+      return;
+    }
+
+    const { baseUrl, request: first, context } = queue[0];
+    // The compound request has to wait for the slowest call anyway.
+    const timeouts = queue.map((o) => o.request.timeout);
+    const timeout = timeouts.some((t) => t == null)
+      ? undefined
+      : Math.max(...(timeouts as number[]));
+    const response = request(
+      baseUrl,
+      first.sid!,
+      { compound: queue.map((o) => toCompoundCall(o.request)), timeout },
+      // Each call checks its own response; a malformed envelope shouldn't fail the lot.
+      { ...context, strictResponses: false },
+    );
+    // A rejected compound request rejects every call in it.
+    queue.forEach((o, i) => {
+      respond(
+        o,
+        response.then((r) => (r.success ? toResponse(r.data.result[i]) : r)),
+      );
+    });
+  }
+}
+
+export const Entry = {
+  Request: {
+    API_NAME,
+    request,
+    batch,
+  },
+};
@@ -1,4 +1,24 @@
-import { ApiBuilder, BaseRequest } from "./shared";
+import {
+  ApiBuilder,
+  BaseRequest,
+  BinaryResponse,
+  ByteRange,
+  FormFile,
+  RequestContext,
+  SynologyResponse,
+  getBinary,
+  parseResponse,
+  post,
+  resolveApi,
+} from "./shared";
+import { Schema } from "./schema";
+import type { UploadProgressListener } from "./transport";
+
+// List and Sharing only take plain comma-separated paths. Everything else gets JSON-encoded path
+// lists, which all the v2 APIs accept and which avoids ambiguity for paths that contain commas.
+function encodePaths(paths: string[]) {
+  return JSON.stringify(paths);
+}
 
 // ------------------------------------------------------------------------- //
 //                                   Info                                    //
@@ -11,12 +31,19 @@ export interface FileStationInfoGetResponse {
   hostname: string;
 }
 
+const INFO_SCHEMA = Schema.object<FileStationInfoGetResponse>({
+  is_manager: Schema.boolean(),
+  support_virtual_protocol: Schema.number(),
+  support_sharing: Schema.boolean(),
+  hostname: Schema.string(),
+});
+
 const INFO_API_NAME = "SYNO.FileStation.Info";
-const infoBuilder = new ApiBuilder("entry", INFO_API_NAME);
+const infoBuilder = new ApiBuilder("entry", INFO_API_NAME, { minVersion: 1, maxVersion: 2 });
 
 const Info = {
   API_NAME: INFO_API_NAME as typeof INFO_API_NAME,
-  get: infoBuilder.makeGet<BaseRequest, FileStationInfoGetResponse>("get"),
+  get: infoBuilder.makeGet<BaseRequest, FileStationInfoGetResponse>("get", undefined, INFO_SCHEMA),
 };
 
 // ------------------------------------------------------------------------- //
@@ -152,8 +179,105 @@ export interface FileStationListGetInfoResponse {
   files: FileStationFile[];
 }
 
+const TIME_SCHEMA = Schema.object<FileStationTime>({
+  atime: Schema.number(),
+  mtime: Schema.number(),
+  ctime: Schema.number(),
+  crtime: Schema.number(),
+});
+
+const OWNER_SCHEMA = Schema.object<FileStationOwner>({
+  user: Schema.string(),
+  group: Schema.string(),
+  uid: Schema.number(),
+  gid: Schema.number(),
+});
+
+const BASE_PERM_SHAPE = {
+  posix: Schema.number(),
+  is_acl_mode: Schema.boolean(),
+  acl: Schema.object<FileStationBasePerm["acl"]>({
+    append: Schema.boolean(),
+    del: Schema.boolean(),
+    exec: Schema.boolean(),
+    read: Schema.boolean(),
+    write: Schema.boolean(),
+  }),
+};
+
+type SharedFolderAdditional = NonNullable<FileStationSharedFolder["additional"]>;
+
+const SHARED_FOLDER_SCHEMA = Schema.object<FileStationSharedFolder>({
+  path: Schema.string(),
+  name: Schema.string(),
+  isdir: Schema.literal(true),
+  additional: Schema.optional(
+    Schema.object<SharedFolderAdditional>({
+      real_path: Schema.optional(Schema.string()),
+      size: Schema.optional(Schema.number()),
+      owner: Schema.optional(OWNER_SCHEMA),
+      time: Schema.optional(TIME_SCHEMA),
+      perm: Schema.optional(
+        Schema.object<NonNullable<SharedFolderAdditional["perm"]>>({
+          ...BASE_PERM_SHAPE,
+          share_right: Schema.string(),
+          adv_right: Schema.object<NonNullable<SharedFolderAdditional["perm"]>["adv_right"]>({
+            disable_download: Schema.boolean(),
+            disable_list: Schema.boolean(),
+            disable_modify: Schema.boolean(),
+          }),
+          acl_enable: Schema.boolean(),
+        }),
+      ),
+      mount_point_type: Schema.optional(Schema.string()),
+      volume_status: Schema.optional(
+        Schema.object<NonNullable<SharedFolderAdditional["volume_status"]>>({
+          freespace: Schema.number(),
+          totalspace: Schema.number(),
+          readonly: Schema.boolean(),
+        }),
+      ),
+    }),
+  ),
+});
+
+const FILE_SHAPE = {
+  path: Schema.string(),
+  name: Schema.string(),
+  isdir: Schema.boolean(),
+  additional: Schema.optional(
+    Schema.object<NonNullable<FileStationFile["additional"]>>({
+      real_path: Schema.optional(Schema.string()),
+      size: Schema.optional(Schema.number()),
+      owner: Schema.optional(OWNER_SCHEMA),
+      time: Schema.optional(TIME_SCHEMA),
+      perm: Schema.optional(Schema.object<FileStationBasePerm>(BASE_PERM_SHAPE)),
+      mount_point_type: Schema.optional(Schema.string()),
+      type: Schema.optional(Schema.string()),
+    }),
+  ),
+};
+
+const FILE_SCHEMA = Schema.object<FileStationFile>(FILE_SHAPE);
+
+const FILES_SCHEMA = Schema.withDefault(Schema.array(FILE_SCHEMA), () => []);
+
+const FILE_LIST_SCHEMA: Schema<FileStationFileList> = Schema.object<FileStationFileList>({
+  total: Schema.number(),
+  offset: Schema.number(),
+  files: Schema.withDefault(
+    Schema.array(
+      Schema.object<FileStationFileList["files"][number]>({
+        ...FILE_SHAPE,
+        children: Schema.optional(Schema.lazy("object", () => FILE_LIST_SCHEMA)),
+      }),
+    ),
+    () => [],
+  ),
+});
+
 const API_NAME = "SYNO.FileStation.List" as const;
-const listBuilder = new ApiBuilder("entry", API_NAME);
+const listBuilder = new ApiBuilder("entry", API_NAME, { minVersion: 1, maxVersion: 2 });
 
 const List = {
   API_NAME,
@@ -166,13 +290,21 @@ const List = {
       ...o,
       additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
     }),
-    undefined,
+    Schema.object<FileStationListListShareResponse>({
+      total: Schema.number(),
+      offset: Schema.number(),
+      shares: Schema.withDefault(Schema.array(SHARED_FOLDER_SCHEMA), () => []),
+    }),
     true,
   ),
-  list: listBuilder.makeGet<FileStationListListRequest, FileStationFileList>("list", (o) => ({
-    ...o,
-    additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
-  })),
+  list: listBuilder.makeGet<FileStationListListRequest, FileStationFileList>(
+    "list",
+    (o) => ({
+      ...o,
+      additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
+    }),
+    FILE_LIST_SCHEMA,
+  ),
   getinfo: listBuilder.makeGet<FileStationListGetInfoRequest, FileStationListGetInfoResponse>(
     "getinfo",
     (o) => ({
@@ -180,6 +312,626 @@ const List = {
       path: o.path.join(","),
       additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
     }),
+    Schema.object<FileStationListGetInfoResponse>({ files: FILES_SCHEMA }),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                  Upload                                   //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationUploadRequest extends BaseRequest {
+  // The destination folder.
+  path: string;
+  file: FormFile;
+  create_parents: boolean;
+  // true to overwrite, false to skip (see `blSkip` in the response), undefined to fail with an error.
+  overwrite?: boolean;
+  // Milliseconds since the epoch.
+  mtime?: number;
+  crtime?: number;
+  atime?: number;
+  // Called as the request body is sent. Note that if the client retries the call, this will start
+  // counting up from zero again.
+  onUploadProgress?: UploadProgressListener;
+}
+
+// These fields are undocumented and determined experimentally; treat them with suspicion.
+export interface FileStationUploadResponse {
+  blSkip?: boolean;
+  file?: string;
+  pid?: number;
+  progress?: number;
+}
+
+const UPLOAD_SCHEMA = Schema.object<FileStationUploadResponse>({
+  blSkip: Schema.optional(Schema.boolean()),
+  file: Schema.optional(Schema.string()),
+  pid: Schema.optional(Schema.number()),
+  progress: Schema.optional(Schema.number()),
+});
+
+const UPLOAD_API_NAME = "SYNO.FileStation.Upload" as const;
+const UPLOAD_CGI_NAME = "entry";
+const UPLOAD_VERSIONS = { minVersion: 2, maxVersion: 3 };
+
+// While the file is being sent, the timeout only counts time without any progress. fetchTransport
+// can only tell where XMLHttpRequest exists; elsewhere, uploads never time out and only `signal`
+// can stop them. The file is streamed from its Blob, so a File from disk isn't read into memory.
+async function Upload_upload(
+  baseUrl: string,
+  sid: string,
+  options: FileStationUploadRequest,
+  context?: RequestContext,
+): Promise<SynologyResponse<FileStationUploadResponse>> {
+  const { onUploadProgress, file, ...restOptions } = options;
+  const { cgi, version } = await resolveApi(
+    context,
+    UPLOAD_API_NAME,
+    UPLOAD_CGI_NAME,
+    UPLOAD_VERSIONS,
+  );
+  const response = await post(
+    baseUrl,
+    cgi,
+    {
+      ...restOptions,
+      api: UPLOAD_API_NAME,
+      version,
+      method: "upload",
+      sid,
+      // post() puts files after every other field, which the NAS requires.
+      file,
+    },
+    context,
+    { onUploadProgress },
+  );
+  // Some versions leave out `data` entirely.
+  return parseResponse(
+    response,
+    Schema.withDefault(UPLOAD_SCHEMA, () => ({})),
+    UPLOAD_API_NAME,
+    "upload",
+    context,
+  );
+}
+
+const Upload = {
+  API_NAME: UPLOAD_API_NAME,
+  upload: Upload_upload,
+};
+
+// ------------------------------------------------------------------------- //
+//                                 Download                                  //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationDownloadRequest extends BaseRequest {
+  // A single file is downloaded as-is. A folder or multiple paths are downloaded as a zip file.
+  path: string[];
+  // "open" asks the NAS to respond with the file's real MIME type rather than forcing a download.
+  mode?: "open" | "download";
+  // Request only part of the file, e.g. to resume an interrupted download. Ignored for zip files.
+  range?: ByteRange;
+}
+
+export type FileStationDownloadResponse = BinaryResponse;
+
+const DOWNLOAD_API_NAME = "SYNO.FileStation.Download" as const;
+const DOWNLOAD_CGI_NAME = "entry";
+const DOWNLOAD_VERSIONS = { minVersion: 2, maxVersion: 2 };
+
+// Note that the timeout only covers the time until the response starts, not reading all of it.
+async function Download_download(
+  baseUrl: string,
+  sid: string,
+  options: FileStationDownloadRequest,
+  context?: RequestContext,
+): Promise<SynologyResponse<FileStationDownloadResponse>> {
+  const { range, ...restOptions } = options;
+  const { cgi, version } = await resolveApi(
+    context,
+    DOWNLOAD_API_NAME,
+    DOWNLOAD_CGI_NAME,
+    DOWNLOAD_VERSIONS,
+  );
+  return getBinary(
+    baseUrl,
+    cgi,
+    {
+      ...restOptions,
+      api: DOWNLOAD_API_NAME,
+      version,
+      method: "download",
+      sid,
+      path: encodePaths(options.path),
+      mode: options.mode ?? "download",
+    },
+    context,
+    { range },
+  );
+}
+
+const Download = {
+  API_NAME: DOWNLOAD_API_NAME,
+  download: Download_download,
+};
+
+// ------------------------------------------------------------------------- //
+//                           Background Tasks                                //
+// ------------------------------------------------------------------------- //
+
+// Several APIs (Delete, CopyMove, Search...) run as background tasks on the NAS and are polled
+// with the `taskid` returned by `start`.
+export interface FileStationBackgroundTaskRequest extends BaseRequest {
+  taskid: string;
+}
+
+export interface FileStationBackgroundTaskStartResponse {
+  taskid: string;
+}
+
+const BACKGROUND_TASK_START_SCHEMA = Schema.object<FileStationBackgroundTaskStartResponse>({
+  taskid: Schema.string(),
+});
+
+// Like paths, the NAS expects task IDs to be JSON-encoded.
+function encodeTaskId(o: FileStationBackgroundTaskRequest) {
+  return { ...o, taskid: JSON.stringify(o.taskid) };
+}
+
+// ------------------------------------------------------------------------- //
+//                               CreateFolder                                //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationCreateFolderRequest extends BaseRequest {
+  // The folders in which to create new folders. Paired one-to-one with `name`.
+  folder_path: string[];
+  name: string[];
+  // Create any missing parents, and don't fail if the folder already exists.
+  force_parent?: boolean;
+  additional?: FileStationFileAdditionalType[];
+}
+
+export interface FileStationCreateFolderResponse {
+  folders: FileStationFile[];
+}
+
+const CREATE_FOLDER_API_NAME = "SYNO.FileStation.CreateFolder" as const;
+const createFolderBuilder = new ApiBuilder("entry", CREATE_FOLDER_API_NAME, {
+  minVersion: 2,
+  maxVersion: 2,
+});
+
+const CreateFolder = {
+  API_NAME: CREATE_FOLDER_API_NAME,
+  create: createFolderBuilder.makeGet<
+    FileStationCreateFolderRequest,
+    FileStationCreateFolderResponse
+  >(
+    "create",
+    (o) => ({
+      ...o,
+      folder_path: encodePaths(o.folder_path),
+      name: encodePaths(o.name),
+      additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
+    }),
+    Schema.object<FileStationCreateFolderResponse>({ folders: FILES_SCHEMA }),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                  Rename                                   //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationRenameRequest extends BaseRequest {
+  // Paired one-to-one with `name`, which are the new names (not paths).
+  path: string[];
+  name: string[];
+  additional?: FileStationFileAdditionalType[];
+  search_taskid?: string;
+}
+
+export interface FileStationRenameResponse {
+  files: FileStationFile[];
+}
+
+const RENAME_API_NAME = "SYNO.FileStation.Rename" as const;
+const renameBuilder = new ApiBuilder("entry", RENAME_API_NAME, { minVersion: 2, maxVersion: 2 });
+
+const Rename = {
+  API_NAME: RENAME_API_NAME,
+  rename: renameBuilder.makeGet<FileStationRenameRequest, FileStationRenameResponse>(
+    "rename",
+    (o) => ({
+      ...o,
+      path: encodePaths(o.path),
+      name: encodePaths(o.name),
+      additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
+    }),
+    Schema.object<FileStationRenameResponse>({ files: FILES_SCHEMA }),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                  Delete                                   //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationDeleteRequest extends BaseRequest {
+  path: string[];
+  // Defaults to true. If false, only files and empty folders can be deleted.
+  recursive?: boolean;
+  search_taskid?: string;
+}
+
+export interface FileStationDeleteStartRequest extends FileStationDeleteRequest {
+  // Count everything up front so that `progress` is accurate, at the cost of a slower start.
+  accurate_progress?: boolean;
+}
+
+export interface FileStationDeleteStatusResponse {
+  processed_num: number;
+  total: number;
+  path: string;
+  processing_path: string;
+  finished: boolean;
+  // 0 to 1.
+  progress: number;
+}
+
+const DELETE_API_NAME = "SYNO.FileStation.Delete" as const;
+const deleteBuilder = new ApiBuilder("entry", DELETE_API_NAME, { minVersion: 2, maxVersion: 2 });
+
+const Delete = {
+  API_NAME: DELETE_API_NAME,
+  start: deleteBuilder.makeGet<
+    FileStationDeleteStartRequest,
+    FileStationBackgroundTaskStartResponse
+  >("start", (o) => ({ ...o, path: encodePaths(o.path) }), BACKGROUND_TASK_START_SCHEMA),
+  status: deleteBuilder.makeGet<FileStationBackgroundTaskRequest, FileStationDeleteStatusResponse>(
+    "status",
+    encodeTaskId,
+    Schema.object<FileStationDeleteStatusResponse>({
+      processed_num: Schema.number(),
+      total: Schema.number(),
+      path: Schema.string(),
+      processing_path: Schema.string(),
+      finished: Schema.boolean(),
+      progress: Schema.number(),
+    }),
+  ),
+  stop: deleteBuilder.makeGet<FileStationBackgroundTaskRequest, {}>(
+    "stop",
+    encodeTaskId,
+    Schema.empty(),
+  ),
+  // Blocks until everything is deleted, which for large folders may exceed the default timeout.
+  delete: deleteBuilder.makeGet<FileStationDeleteRequest, {}>(
+    "delete",
+    (o) => ({
+      ...o,
+      path: encodePaths(o.path),
+    }),
+    Schema.empty(),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                 CopyMove                                  //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationCopyMoveStartRequest extends BaseRequest {
+  path: string[];
+  dest_folder_path: string;
+  // true to overwrite conflicting files, false to skip them, undefined to fail with an error.
+  overwrite?: boolean;
+  // true to move rather than copy.
+  remove_src?: boolean;
+  // Count everything up front so that `progress` is accurate, at the cost of a slower start.
+  accurate_progress?: boolean;
+  search_taskid?: string;
+}
+
+export interface FileStationCopyMoveStatusResponse {
+  dest_folder_path: string;
+  finished: boolean;
+  // The file currently being copied or moved.
+  path: string;
+  // Bytes.
+  processed_size: number;
+  // 0 to 1. May not be meaningful unless `accurate_progress` was requested.
+  progress: number;
+  // Bytes, or -1 if not yet known.
+  total: number;
+}
+
+const COPY_MOVE_API_NAME = "SYNO.FileStation.CopyMove" as const;
+const copyMoveBuilder = new ApiBuilder("entry", COPY_MOVE_API_NAME, {
+  minVersion: 3,
+  maxVersion: 3,
+});
+
+const CopyMove = {
+  API_NAME: COPY_MOVE_API_NAME,
+  start: copyMoveBuilder.makeGet<
+    FileStationCopyMoveStartRequest,
+    FileStationBackgroundTaskStartResponse
+  >(
+    "start",
+    (o) => ({
+      ...o,
+      path: encodePaths(o.path),
+      dest_folder_path: JSON.stringify(o.dest_folder_path),
+    }),
+    BACKGROUND_TASK_START_SCHEMA,
+  ),
+  status: copyMoveBuilder.makeGet<
+    FileStationBackgroundTaskRequest,
+    FileStationCopyMoveStatusResponse
+  >(
+    "status",
+    encodeTaskId,
+    Schema.object<FileStationCopyMoveStatusResponse>({
+      dest_folder_path: Schema.string(),
+      finished: Schema.boolean(),
+      path: Schema.string(),
+      processed_size: Schema.number(),
+      progress: Schema.number(),
+      total: Schema.number(),
+    }),
+  ),
+  stop: copyMoveBuilder.makeGet<FileStationBackgroundTaskRequest, {}>(
+    "stop",
+    encodeTaskId,
+    Schema.empty(),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                  Search                                   //
+// ------------------------------------------------------------------------- //
+
+export interface FileStationSearchStartRequest extends BaseRequest {
+  folder_path: string[];
+  // Defaults to true.
+  recursive?: boolean;
+  // Matched against file names, with * and ? as wildcards.
+  pattern?: string;
+  // Without the leading dot.
+  extension?: string;
+  filetype?: "file" | "dir" | "all";
+  // Bytes, inclusive.
+  size_from?: number;
+  size_to?: number;
+  // Seconds since the epoch, inclusive.
+  mtime_from?: number;
+  mtime_to?: number;
+  crtime_from?: number;
+  crtime_to?: number;
+  atime_from?: number;
+  atime_to?: number;
+  owner?: string;
+  group?: string;
+}
+
+export interface FileStationSearchListRequest extends FileStationBackgroundTaskRequest {
+  offset?: number;
+  limit?: number;
+  sort_by?:
+    | "name"
+    | "size"
+    | "user"
+    | "group"
+    | "mtime"
+    | "atime"
+    | "ctime"
+    | "crtime"
+    | "posix"
+    | "type";
+  sort_direction?: "asc" | "desc";
+  // Further narrows down the results found so far.
+  pattern?: string;
+  filetype?: "file" | "dir" | "all";
+  additional?: FileStationFileAdditionalType[];
+}
+
+export interface FileStationSearchListResponse {
+  // The number of results found so far, which grows until `finished`.
+  total: number;
+  offset: number;
+  finished: boolean;
+  files: FileStationFile[];
+}
+
+const SEARCH_API_NAME = "SYNO.FileStation.Search" as const;
+const searchBuilder = new ApiBuilder("entry", SEARCH_API_NAME, { minVersion: 2, maxVersion: 2 });
+
+const Search = {
+  API_NAME: SEARCH_API_NAME,
+  start: searchBuilder.makeGet<
+    FileStationSearchStartRequest,
+    FileStationBackgroundTaskStartResponse
+  >(
+    "start",
+    (o) => ({ ...o, folder_path: encodePaths(o.folder_path) }),
+    BACKGROUND_TASK_START_SCHEMA,
+  ),
+  list: searchBuilder.makeGet<FileStationSearchListRequest, FileStationSearchListResponse>(
+    "list",
+    (o) => ({
+      ...encodeTaskId(o),
+      additional: o && o.additional && o.additional.length ? o.additional.join(",") : undefined,
+    }),
+    Schema.object<FileStationSearchListResponse>({
+      total: Schema.number(),
+      offset: Schema.number(),
+      finished: Schema.boolean(),
+      files: FILES_SCHEMA,
+    }),
+  ),
+  stop: searchBuilder.makeGet<FileStationBackgroundTaskRequest, {}>(
+    "stop",
+    encodeTaskId,
+    Schema.empty(),
+  ),
+  // Searches are kept around after they finish so their results can be listed. This frees them.
+  clean: searchBuilder.makeGet<FileStationBackgroundTaskRequest, {}>(
+    "clean",
+    encodeTaskId,
+    Schema.empty(),
+  ),
+};
+
+// ------------------------------------------------------------------------- //
+//                                  Sharing                                  //
+// ------------------------------------------------------------------------- //
+
+export type FileStationSharingLinkStatus = "valid" | "invalid" | "expired" | "broken";
+
+export interface FileStationSharingLink {
+  id: string;
+  url: string;
+  link_owner: string;
+  path: string;
+  isFolder: boolean;
+  has_password: boolean;
+  // YYYY-MM-DD, or "0" if the link never expires.
+  date_expired: string;
+  // YYYY-MM-DD, or "0" if the link is available immediately.
+  date_available: string;
+  status: FileStationSharingLinkStatus;
+}
+
+export interface FileStationSharingGetInfoRequest extends BaseRequest {
+  id: string;
+}
+
+export interface FileStationSharingListRequest extends BaseRequest {
+  offset?: number;
+  limit?: number;
+  sort_by?:
+    | "id"
+    | "name"
+    | "isFolder"
+    | "path"
+    | "date_expired"
+    | "date_available"
+    | "status"
+    | "has_password"
+    | "url"
+    | "link_owner";
+  sort_direction?: "asc" | "desc";
+  // Remove invalid links before listing.
+  force_clean?: boolean;
+}
+
+export interface FileStationSharingListResponse {
+  total: number;
+  offset: number;
+  links: FileStationSharingLink[];
+}
+
+export interface FileStationSharingCreateRequest extends BaseRequest {
+  // Like List's getinfo, one link is created per path.
+  path: string[];
+  password?: string;
+  // YYYY-MM-DD, or "0" (the default) for no limit.
+  date_expired?: string;
+  date_available?: string;
+}
+
+export interface FileStationSharingCreateResponse {
+  links: {
+    id: string;
+    url: string;
+    // Base64-encoded PNG.
+    qrcode: string;
+    path: string;
+    // 0 if this link was created successfully, otherwise an error code.
+    error: number;
+  }[];
+}
+
+export interface FileStationSharingDeleteRequest extends BaseRequest {
+  id: string[];
+}
+
+export interface FileStationSharingEditRequest extends BaseRequest {
+  id: string[];
+  // An empty string removes the password.
+  password?: string;
+  date_expired?: string;
+  date_available?: string;
+}
+
+const SHARING_LINK_SCHEMA = Schema.object<FileStationSharingLink>({
+  id: Schema.string(),
+  url: Schema.string(),
+  link_owner: Schema.string(),
+  path: Schema.string(),
+  isFolder: Schema.boolean(),
+  has_password: Schema.boolean(),
+  date_expired: Schema.string(),
+  date_available: Schema.string(),
+  status: Schema.oneOf(["valid", "invalid", "expired", "broken"]),
+});
+
+const SHARING_API_NAME = "SYNO.FileStation.Sharing" as const;
+const sharingBuilder = new ApiBuilder("entry", SHARING_API_NAME, { minVersion: 1, maxVersion: 3 });
+
+const Sharing = {
+  API_NAME: SHARING_API_NAME,
+  getinfo: sharingBuilder.makeGet<FileStationSharingGetInfoRequest, FileStationSharingLink>(
+    "getinfo",
+    undefined,
+    SHARING_LINK_SCHEMA,
+  ),
+  list: sharingBuilder.makeGet<FileStationSharingListRequest, FileStationSharingListResponse>(
+    "list",
+    undefined,
+    Schema.object<FileStationSharingListResponse>({
+      total: Schema.number(),
+      offset: Schema.number(),
+      links: Schema.withDefault(Schema.array(SHARING_LINK_SCHEMA), () => []),
+    }),
+    true,
+  ),
+  create: sharingBuilder.makeGet<FileStationSharingCreateRequest, FileStationSharingCreateResponse>(
+    "create",
+    (o) => ({ ...o, path: o.path.join(",") }),
+    Schema.object<FileStationSharingCreateResponse>({
+      links: Schema.array(
+        Schema.object<FileStationSharingCreateResponse["links"][number]>({
+          id: Schema.string(),
+          url: Schema.string(),
+          qrcode: Schema.string(),
+          path: Schema.string(),
+          error: Schema.number(),
+        }),
+      ),
+    }),
+  ),
+  delete: sharingBuilder.makeGet<FileStationSharingDeleteRequest, {}>(
+    "delete",
+    (o) => ({
+      ...o,
+      id: o.id.join(","),
+    }),
+    Schema.empty(),
+  ),
+  // Removes links that have expired or whose files no longer exist.
+  clear_invalid: sharingBuilder.makeGet<BaseRequest, {}>(
+    "clear_invalid",
+    undefined,
+    Schema.empty(),
+    true,
+  ),
+  edit: sharingBuilder.makeGet<FileStationSharingEditRequest, {}>(
+    "edit",
+    (o) => ({
+      ...o,
+      id: o.id.join(","),
+    }),
+    Schema.empty(),
   ),
 };
 
@@ -190,4 +942,12 @@ const List = {
 export const FileStation = {
   Info,
   List,
+  Upload,
+  Download,
+  CreateFolder,
+  Rename,
+  Delete,
+  CopyMove,
+  Search,
+  Sharing,
 };
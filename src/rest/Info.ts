@@ -1,4 +1,13 @@
-import { SynologyResponse, BaseRequest, get } from "./shared";
+import {
+  SynologyResponse,
+  BaseRequest,
+  ApiVersionRange,
+  RequestContext,
+  ResolvedApi,
+  get,
+  parseResponse,
+} from "./shared";
+import { Schema } from "./schema";
 
 export interface InfoQueryRequest extends BaseRequest {
   query: "ALL" | string[];
@@ -10,24 +19,65 @@ export type InfoQueryResponse = Record<
     minVersion: number;
     maxVersion: number;
     path: string;
-    requestFormat: string;
+    // Only present for some APIs.
+    requestFormat?: string;
   }
 >;
 
+const QUERY_SCHEMA = Schema.record(
+  Schema.object<InfoQueryResponse[string]>({
+    minVersion: Schema.number(),
+    maxVersion: Schema.number(),
+    path: Schema.string(),
+    requestFormat: Schema.optional(Schema.string()),
+  }),
+);
+
 const CGI_NAME = "query" as const;
 const API_NAME = "SYNO.API.Info" as const;
 
-function Query(
+async function Query(
   baseUrl: string,
   options: InfoQueryRequest,
+  // Only the transport is used: the whole point of this API is to bootstrap API resolution.
+  context?: RequestContext,
 ): Promise<SynologyResponse<InfoQueryResponse>> {
-  return get(baseUrl, CGI_NAME, {
-    ...options,
-    api: API_NAME,
-    version: 1,
-    method: "query",
-    query: options.query === "ALL" ? options.query : options.query.join(","),
-  });
+  const response = await get(
+    baseUrl,
+    CGI_NAME,
+    {
+      ...options,
+      api: API_NAME,
+      version: 1,
+      method: "query",
+      query: options.query === "ALL" ? options.query : options.query.join(","),
+    },
+    context,
+  );
+  return parseResponse(response, QUERY_SCHEMA, API_NAME, "query", context);
+}
+
+// Pick the highest version that both the remote and this library understand. Returns undefined if
+// the remote doesn't know about the API at all or the version ranges don't overlap.
+export function negotiateApi(
+  info: InfoQueryResponse,
+  api: string,
+  versions: ApiVersionRange,
+): ResolvedApi | undefined {
+  const remote = info[api];
+  if (remote == null) {
+    return undefined;
+  }
+
+  const version = Math.min(+remote.maxVersion, versions.maxVersion);
+  if (version < Math.max(+remote.minVersion, versions.minVersion)) {
+    return undefined;
+  }
+
+  return {
+    cgi: remote.path.replace(/\.cgi$/, ""),
+    version,
+  };
 }
 
 export const Info = {
@@ -0,0 +1,267 @@
+import { Auth } from "./Auth";
+import { DownloadStation } from "./DownloadStation";
+import { DownloadStation2 } from "./DownloadStation2";
+import { FileStation } from "./FileStation";
+import type { SynologyFailureResponse } from "./shared";
+
+// Error codes are only meaningful relative to the API that produced them: 400, for example, is a bad
+// password for Auth, a failed upload for DownloadStation.Task and an invalid parameter for every
+// FileStation API. The tables below are transcribed from the official documentation.
+
+interface ErrorTable {
+  [code: number]: {
+    kind: string;
+    message: string;
+  };
+}
+
+type ErrorKindOf<T> = { [K in keyof T]: T[K] extends { kind: infer U } ? U : never }[keyof T];
+
+// ------------------------------------------------------------------------- //
+//                                  Common                                   //
+// ------------------------------------------------------------------------- //
+
+// Any API may respond with these.
+const COMMON_ERRORS = {
+  100: { kind: "unknown", message: "Unknown error" },
+  101: { kind: "invalid-parameter", message: "No parameter of API, method or version" },
+  102: { kind: "no-such-api", message: "The requested API does not exist" },
+  103: { kind: "no-such-method", message: "The requested method does not exist" },
+  104: {
+    kind: "unsupported-version",
+    message: "The requested version does not support the functionality",
+  },
+  105: { kind: "no-permission", message: "The logged in session does not have permission" },
+  106: { kind: "session-timeout", message: "Session timeout" },
+  107: { kind: "session-interrupted", message: "Session interrupted by duplicate login" },
+  108: { kind: "upload-failed", message: "Failed to upload the file" },
+  109: { kind: "system-busy", message: "The network connection is unstable or the system is busy" },
+  110: { kind: "system-busy", message: "The network connection is unstable or the system is busy" },
+  111: { kind: "system-busy", message: "The network connection is unstable or the system is busy" },
+  114: { kind: "missing-parameter", message: "Lost parameters for this API" },
+  115: { kind: "upload-not-allowed", message: "Not allowed to upload a file" },
+  116: { kind: "demo-site", message: "Not allowed to perform for a demo site" },
+  117: { kind: "system-busy", message: "The network connection is unstable or the system is busy" },
+  118: { kind: "system-busy", message: "The network connection is unstable or the system is busy" },
+  119: { kind: "invalid-session", message: "Invalid session" },
+} as const;
+
+// ------------------------------------------------------------------------- //
+//                                   Auth                                    //
+// ------------------------------------------------------------------------- //
+
+const AUTH_ERRORS = {
+  400: { kind: "bad-credentials", message: "No such account or incorrect password" },
+  401: { kind: "account-disabled", message: "Account disabled" },
+  402: { kind: "permission-denied", message: "Permission denied" },
+  403: { kind: "otp-required", message: "2-step verification code required" },
+  404: { kind: "otp-failed", message: "Failed to authenticate 2-step verification code" },
+  406: {
+    kind: "otp-enforced",
+    message: "Enforce to authenticate with 2-factor authentication code",
+  },
+  407: { kind: "ip-blocked", message: "Blocked IP source" },
+  408: { kind: "password-expired-unchangeable", message: "Expired password cannot change" },
+  409: { kind: "password-expired", message: "Expired password" },
+  410: { kind: "password-must-change", message: "Password must be changed" },
+} as const;
+
+// ------------------------------------------------------------------------- //
+//                              DownloadStation                              //
+// ------------------------------------------------------------------------- //
+
+const DOWNLOAD_STATION_TASK_ERRORS = {
+  400: { kind: "file-upload-failed", message: "File upload failed" },
+  401: { kind: "max-tasks-reached", message: "Max number of tasks reached" },
+  402: { kind: "destination-denied", message: "Destination denied" },
+  403: { kind: "destination-not-exist", message: "Destination does not exist" },
+  404: { kind: "invalid-task-id", message: "Invalid task id" },
+  405: { kind: "invalid-task-action", message: "Invalid task action" },
+  406: { kind: "no-default-destination", message: "No default destination" },
+  407: { kind: "set-destination-failed", message: "Set destination failed" },
+  408: { kind: "file-not-exist", message: "File does not exist" },
+} as const;
+
+const DOWNLOAD_STATION_BT_SEARCH_ERRORS = {
+  400: { kind: "unknown", message: "Unknown error" },
+  401: { kind: "invalid-parameter", message: "Invalid parameter" },
+  402: { kind: "parse-settings-failed", message: "Parse the user setting failed" },
+  403: { kind: "get-category-failed", message: "Get category failed" },
+  404: { kind: "get-results-failed", message: "Get the search result from DB failed" },
+  405: { kind: "get-settings-failed", message: "Get the user setting failed" },
+} as const;
+
+// ------------------------------------------------------------------------- //
+//                                FileStation                                //
+// ------------------------------------------------------------------------- //
+
+// Every FileStation API may respond with these, in addition to its own.
+const FILE_STATION_ERRORS = {
+  400: { kind: "invalid-parameter", message: "Invalid parameter of file operation" },
+  401: { kind: "unknown", message: "Unknown error of file operation" },
+  402: { kind: "system-busy", message: "System is too busy" },
+  403: { kind: "invalid-user", message: "Invalid user does this file operation" },
+  404: { kind: "invalid-group", message: "Invalid group does this file operation" },
+  405: {
+    kind: "invalid-user-and-group",
+    message: "Invalid user and group does this file operation",
+  },
+  406: {
+    kind: "account-server-unavailable",
+    message: "Can't get user/group information from the account server",
+  },
+  407: { kind: "operation-not-permitted", message: "Operation not permitted" },
+  408: { kind: "no-such-file", message: "No such file or directory" },
+  409: { kind: "unsupported-file-system", message: "Non-supported file system" },
+  410: {
+    kind: "remote-file-system-unavailable",
+    message: "Failed to connect internet-based file system (e.g., CIFS)",
+  },
+  411: { kind: "read-only-file-system", message: "Read-only file system" },
+  412: { kind: "name-too-long", message: "Filename too long in the non-encrypted file system" },
+  413: {
+    kind: "encrypted-name-too-long",
+    message: "Filename too long in the encrypted file system",
+  },
+  414: { kind: "file-exists", message: "File already exists" },
+  415: { kind: "quota-exceeded", message: "Disk quota exceeded" },
+  416: { kind: "disk-full", message: "No space left on device" },
+  417: { kind: "io-error", message: "Input/output error" },
+  418: { kind: "illegal-path", message: "Illegal name or path" },
+  419: { kind: "illegal-file-name", message: "Illegal file name" },
+  420: { kind: "illegal-fat-file-name", message: "Illegal file name on FAT file system" },
+  421: { kind: "device-busy", message: "Device or resource busy" },
+  599: { kind: "no-such-task", message: "No such task of the file operation" },
+} as const;
+
+const FILE_STATION_SHARING_ERRORS = {
+  2000: { kind: "no-such-link", message: "Sharing link does not exist" },
+  2001: {
+    kind: "too-many-links",
+    message: "Cannot generate sharing link because too many sharing links exist",
+  },
+  2002: { kind: "link-access-failed", message: "Failed to access sharing links" },
+} as const;
+
+const FILE_STATION_COPY_MOVE_ERRORS = {
+  1000: { kind: "copy-failed", message: "Failed to copy files/folders" },
+  1001: { kind: "move-failed", message: "Failed to move files/folders" },
+  1002: { kind: "destination-error", message: "An error occurred at the destination" },
+  1003: {
+    kind: "conflict",
+    message: "Cannot overwrite or skip the existing file because no overwrite parameter is given",
+  },
+  1004: {
+    kind: "file-folder-conflict",
+    message:
+      "File cannot overwrite a folder with the same name, or folder cannot overwrite a file with the same name",
+  },
+  1006: {
+    kind: "illegal-fat-file-name",
+    message: "Cannot copy/move file/folder with special characters to a FAT32 file system",
+  },
+  1007: {
+    kind: "fat-file-too-large",
+    message: "Cannot copy/move a file bigger than 4G to a FAT32 file system",
+  },
+} as const;
+
+const FILE_STATION_CREATE_FOLDER_ERRORS = {
+  1100: { kind: "create-folder-failed", message: "Failed to create a folder" },
+  1101: {
+    kind: "too-many-folders",
+    message: "The number of folders to the parent folder would exceed the system limitation",
+  },
+} as const;
+
+const FILE_STATION_RENAME_ERRORS = {
+  1200: { kind: "rename-failed", message: "Failed to rename it" },
+} as const;
+
+const FILE_STATION_DELETE_ERRORS = {
+  900: { kind: "delete-failed", message: "Failed to delete file(s)/folder(s)" },
+} as const;
+
+const FILE_STATION_UPLOAD_ERRORS = {
+  1800: {
+    kind: "content-length-mismatch",
+    message:
+      "There is no Content-Length information in the HTTP header or the received size doesn't match the value of Content-Length",
+  },
+  1801: { kind: "upload-timeout", message: "Wait too long, no data can be received from client" },
+  1802: {
+    kind: "missing-file-name",
+    message: "No filename information in the last part of file content",
+  },
+  1803: { kind: "upload-cancelled", message: "Upload connection is cancelled" },
+  1804: { kind: "fat-file-too-large", message: "Failed to upload too big file to FAT file system" },
+  1805: {
+    kind: "conflict",
+    message: "Can't overwrite or skip the existing file, if no overwrite parameter is given",
+  },
+} as const;
+
+// ------------------------------------------------------------------------- //
+//                                  Catalog                                  //
+// ------------------------------------------------------------------------- //
+
+// Codes specific to each API, keyed by the API_NAME of its namespace. Common codes apply to every
+// API and aren't repeated here. APIs that aren't listed have no documented codes of their own.
+export const API_ERRORS = {
+  [Auth.API_NAME]: AUTH_ERRORS,
+  [DownloadStation.Task.API_NAME]: DOWNLOAD_STATION_TASK_ERRORS,
+  [DownloadStation.BTSearch.API_NAME]: DOWNLOAD_STATION_BT_SEARCH_ERRORS,
+  // DownloadStation2 isn't officially documented, but its task APIs report the same codes.
+  [DownloadStation2.Task.API_NAME]: DOWNLOAD_STATION_TASK_ERRORS,
+  [DownloadStation2.TaskList.API_NAME]: DOWNLOAD_STATION_TASK_ERRORS,
+  [DownloadStation2.TaskBtFile.API_NAME]: DOWNLOAD_STATION_TASK_ERRORS,
+  [FileStation.Info.API_NAME]: FILE_STATION_ERRORS,
+  [FileStation.List.API_NAME]: FILE_STATION_ERRORS,
+  [FileStation.Download.API_NAME]: FILE_STATION_ERRORS,
+  [FileStation.Search.API_NAME]: FILE_STATION_ERRORS,
+  [FileStation.Upload.API_NAME]: { ...FILE_STATION_ERRORS, ...FILE_STATION_UPLOAD_ERRORS },
+  [FileStation.CreateFolder.API_NAME]: {
+    ...FILE_STATION_ERRORS,
+    ...FILE_STATION_CREATE_FOLDER_ERRORS,
+  },
+  [FileStation.Rename.API_NAME]: { ...FILE_STATION_ERRORS, ...FILE_STATION_RENAME_ERRORS },
+  [FileStation.Delete.API_NAME]: { ...FILE_STATION_ERRORS, ...FILE_STATION_DELETE_ERRORS },
+  [FileStation.CopyMove.API_NAME]: { ...FILE_STATION_ERRORS, ...FILE_STATION_COPY_MOVE_ERRORS },
+  [FileStation.Sharing.API_NAME]: { ...FILE_STATION_ERRORS, ...FILE_STATION_SHARING_ERRORS },
+};
+
+export type CatalogedApiName = keyof typeof API_ERRORS;
+
+export type CommonErrorKind = ErrorKindOf<typeof COMMON_ERRORS>;
+
+type CatalogedErrorKind = {
+  [A in CatalogedApiName]: ErrorKindOf<typeof API_ERRORS[A]>;
+}[CatalogedApiName];
+
+// "unrecognized" is for codes that aren't in the catalog at all. When `A` isn't known statically
+// (e.g. it's just `string`), any cataloged kind is possible.
+export type SynologyErrorKind<A extends string = string> =
+  | CommonErrorKind
+  | (A extends CatalogedApiName ? ErrorKindOf<typeof API_ERRORS[A]> : CatalogedErrorKind)
+  | "unrecognized";
+
+export interface SynologyErrorDescription<A extends string = string> {
+  code: number;
+  kind: SynologyErrorKind<A>;
+  message: string;
+}
+
+// API-specific codes take precedence, since some APIs reuse numbers in the common range.
+export function describeError<A extends string>(
+  apiName: A,
+  response: SynologyFailureResponse,
+): SynologyErrorDescription<A> {
+  const { code } = response.error;
+  const apiErrors: ErrorTable | undefined = (API_ERRORS as Record<string, ErrorTable>)[apiName];
+  const entry = apiErrors?.[code] ?? (COMMON_ERRORS as ErrorTable)[code];
+  if (entry != null) {
+    return { code, kind: entry.kind as SynologyErrorKind<A>, message: entry.message };
+  } else {
+    return { code, kind: "unrecognized", message: `Unrecognized error code ${code}` };
+  }
+}
@@ -3,6 +3,9 @@ export * from "./Auth";
 export * from "./DownloadStation";
 export * from "./DownloadStation2";
 export * from "./FileStation";
+export * from "./Entry";
+export * from "./errors";
+export * from "./schema";
 export {
   SynologyResponse,
   SynologySuccessResponse,
@@ -10,4 +13,30 @@ export {
   SessionName,
   FormFile,
   isFormFile,
+  ApiVersionRange,
+  ResolvedApi,
+  ApiResolver,
+  RequestContext,
+  OutgoingRequest,
+  InterceptedRequest,
+  RequestInterceptor,
+  RequestPriority,
+  PostOptions,
+  ByteRange,
+  BinaryResponse,
+  GetBinaryOptions,
+  MalformedResponseError,
 } from "./shared";
+export {
+  Transport,
+  TransportRequest,
+  TransportResponse,
+  TransportFormField,
+  UploadProgress,
+  UploadProgressListener,
+  fetchTransport,
+  BadResponseError,
+  TimeoutError,
+  NetworkError,
+  CancelledError,
+} from "./transport";
@@ -0,0 +1,194 @@
+// Declarative descriptions of response shapes. Parsing a response against its schema coerces the
+// values DSM sends in the wrong type (numbers and booleans as strings, mostly) and collects
+// everything else that doesn't match. What happens to the mismatches is up to the caller; see
+// RequestContext#strictResponses.
+
+export interface SchemaIssue {
+  // e.g. "tasks[0].additional.transfer.size_downloaded". Empty for the response as a whole.
+  path: string;
+  expected: string;
+  // A truncated JSON rendering of the actual value.
+  received: string;
+}
+
+export interface Schema<T> {
+  readonly description: string;
+  // Values that can't be coerced are reported in `issues` and passed through as they are.
+  parse(value: unknown, path: string, issues: SchemaIssue[]): T;
+  // Never set. Makes Schema<T> invariant in T, so that a schema has to describe its type exactly: in
+  // particular, optional properties must use Schema.optional, and only they may.
+  readonly __type?: (value: T) => T;
+}
+
+// One schema per property, optional properties included.
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const MAX_RECEIVED_LENGTH = 60;
+
+function describeValue(value: unknown) {
+  const json = value === undefined ? "undefined" : String(JSON.stringify(value));
+  return json.length > MAX_RECEIVED_LENGTH ? `${json.slice(0, MAX_RECEIVED_LENGTH)}...` : json;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+// The building block for leaf values: `coerce` returns undefined for anything it can't make sense of.
+function custom<T>(description: string, coerce: (value: unknown) => T | undefined): Schema<T> {
+  return {
+    description,
+    parse: (value, path, issues) => {
+      const coerced = coerce(value);
+      if (coerced === undefined) {
+        issues.push({ path, expected: description, received: describeValue(value) });
+        return value as T;
+      } else {
+        return coerced;
+      }
+    },
+  };
+}
+
+// We don't expect any numbers greater than Number.MAX_SAFE_INTEGER, so converting strings is safe.
+// If they are, so be it: you have a 9 quadrillion byte download, so you probably have other problems.
+const NUMBER = custom<number>("number", (value) =>
+  typeof value === "number"
+    ? value
+    : typeof value === "string" && value.trim() !== "" && !isNaN(+value)
+    ? +value
+    : undefined,
+);
+
+const BOOLEAN = custom<boolean>("boolean", (value) =>
+  typeof value === "boolean"
+    ? value
+    : value === "true"
+    ? true
+    : value === "false"
+    ? false
+    : undefined,
+);
+
+// Some IDs are sent as numbers by some versions and strings by others.
+const STRING = custom<string>("string", (value) =>
+  typeof value === "string" ? value : typeof value === "number" ? String(value) : undefined,
+);
+
+function oneOf<T extends string>(values: readonly T[], description?: string): Schema<T> {
+  return custom(description ?? values.map((v) => JSON.stringify(v)).join(" | "), (value) =>
+    values.includes(value as T) ? (value as T) : undefined,
+  );
+}
+
+function literal<T extends string | number | boolean>(expected: T): Schema<T> {
+  return custom(JSON.stringify(expected), (value) =>
+    value === expected || value === String(expected) ? expected : undefined,
+  );
+}
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `${item.description}[]`,
+    parse: (value, path, issues) => {
+      if (Array.isArray(value)) {
+        return value.map((v, i) => item.parse(v, `${path}[${i}]`, issues));
+      } else {
+        issues.push({ path, expected: "array", received: describeValue(value) });
+        return value as T[];
+      }
+    },
+  };
+}
+
+// Properties the schema doesn't know about are kept as they are: DSM adds new ones all the time, and
+// they can't break anything.
+function object<T>(shape: ObjectShape<T>): Schema<T> {
+  const keys = Object.keys(shape) as (keyof T & string)[];
+  return {
+    description: "object",
+    parse: (value, path, issues) => {
+      if (!isPlainObject(value)) {
+        issues.push({ path, expected: "object", received: describeValue(value) });
+        return value as T;
+      }
+      const output: Record<string, unknown> = { ...value };
+      keys.forEach((k) => {
+        const parsed = shape[k].parse(value[k], path ? `${path}.${k}` : k, issues);
+        if (parsed !== undefined) {
+          output[k] = parsed;
+        } else {
+          // e.g. a null that Schema.optional treats as absent.
+          delete output[k];
+        }
+      });
+      return output as T;
+    },
+  };
+}
+
+function record<T>(values: Schema<T>): Schema<Record<string, T>> {
+  return {
+    description: `Record<string, ${values.description}>`,
+    parse: (value, path, issues) => {
+      if (!isPlainObject(value)) {
+        issues.push({ path, expected: "object", received: describeValue(value) });
+        return value as Record<string, T>;
+      }
+      const output: Record<string, T> = {};
+      Object.keys(value).forEach((k) => {
+        output[k] = values.parse(value[k], path ? `${path}.${k}` : k, issues);
+      });
+      return output;
+    },
+  };
+}
+
+// DSM sometimes sends null for things it has nothing to say about, which means the same as leaving
+// them out.
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${schema.description} | undefined`,
+    parse: (value, path, issues) => (value == null ? undefined : schema.parse(value, path, issues)),
+  };
+}
+
+// For properties DSM leaves out rather than sending empty. A function so that callers don't share
+// (and mutate) the same default.
+function withDefault<T>(schema: Schema<T>, makeDefault: () => T): Schema<T> {
+  return {
+    description: schema.description,
+    parse: (value, path, issues) =>
+      value == null ? makeDefault() : schema.parse(value, path, issues),
+  };
+}
+
+// For recursive shapes. The description is needed up front, before the schema exists.
+function lazy<T>(description: string, getSchema: () => Schema<T>): Schema<T> {
+  return {
+    description,
+    parse: (value, path, issues) => getSchema().parse(value, path, issues),
+  };
+}
+
+// For methods that have nothing to say on success, which DSM may express by leaving out `data`.
+const EMPTY: Schema<{}> = {
+  description: "{}",
+  parse: (value) => (isPlainObject(value) ? value : {}),
+};
+
+export const Schema = {
+  custom,
+  number: () => NUMBER,
+  boolean: () => BOOLEAN,
+  string: () => STRING,
+  empty: () => EMPTY,
+  oneOf,
+  literal,
+  array,
+  object,
+  record,
+  optional,
+  withDefault,
+  lazy,
+};
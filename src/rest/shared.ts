@@ -1,12 +1,35 @@
 import { stringify } from "query-string";
+import type { RetryPolicy } from "../client";
+import {
+  BadResponseError,
+  CancelledError,
+  Transport,
+  TransportFormField,
+  TransportRequest,
+  TransportResponse,
+  UploadProgressListener,
+  fetchTransport,
+} from "./transport";
+import type { Schema, SchemaIssue } from "./schema";
 
-export class BadResponseError extends Error {
-  constructor(public response: Response) {
-    super();
+export { BadResponseError, TimeoutError, NetworkError, CancelledError } from "./transport";
+export class UnsupportedApiError extends Error {
+  constructor(public api: string) {
+    super(`the remote does not support ${api} at a version this library understands`);
+  }
+}
+
+// Only thrown with RequestContext#strictResponses.
+export class MalformedResponseError extends Error {
+  constructor(public api: string, public method: string, public issues: SchemaIssue[]) {
+    super(
+      `unexpected response from ${api} ${method}: expected ${issues[0].expected} at ${
+        issues[0].path || "the top level"
+      }, got ${issues[0].received}` +
+        (issues.length > 1 ? ` (and ${issues.length - 1} more issues)` : ""),
+    );
   }
 }
-export class TimeoutError extends Error {}
-export class NetworkError extends Error {}
 
 export const SessionName = {
   DownloadStation: "DownloadStation" as const,
@@ -39,172 +62,525 @@ export interface SynologyFailureResponse {
 
 export type SynologyResponse<S> = SynologySuccessResponse<S> | SynologyFailureResponse;
 
+// Used by ApiClient to decide which queued call to run next. Defaults to "normal".
+export type RequestPriority = "interactive" | "normal" | "background";
+
 export interface BaseRequest {
   timeout?: number;
+  // Only used by ApiClient, which merges it over its own `retry` setting.
+  retry?: RetryPolicy;
+  // Only used by ApiClient, to order calls waiting for their turn. Not called `priority` because some
+  // APIs already have a parameter by that name.
+  queuePriority?: RequestPriority;
+  // Abandons the call. ApiClient also stops waiting to log in, retry or take its turn.
+  signal?: AbortSignal;
 }
 
+// BaseRequest fields that control how a request is made, and are never sent to the NAS.
+export const LOCAL_REQUEST_KEYS: string[] = ["timeout", "retry", "queuePriority", "signal"];
+
 export interface SynologyApiRequest {
   api: string;
   version: number;
   method: string;
   sid?: string;
   timeout?: number;
-  [key: string]: string | number | boolean | FormFile | undefined;
+  retry?: RetryPolicy;
+  queuePriority?: RequestPriority;
+  signal?: AbortSignal;
+  [key: string]: string | number | boolean | FormFile | RetryPolicy | AbortSignal | undefined;
+}
+
+export interface ApiVersionRange {
+  minVersion: number;
+  maxVersion: number;
+}
+
+export interface ResolvedApi {
+  // The CGI path relative to /webapi, without the .cgi extension.
+  cgi: string;
+  version: number;
+}
+
+// Given an API name and the range of versions this library understands for it, figure out which
+// CGI to hit and which version to ask for. Throw UnsupportedApiError if there is no overlap, or
+// return undefined if there isn't enough information to decide and the defaults should be used.
+export type ApiResolver = (
+  api: string,
+  versions: ApiVersionRange,
+) => Promise<ResolvedApi | undefined>;
+
+// A JSON request on its way out, as handed to RequestContext#sendRequest.
+export interface OutgoingRequest {
+  baseUrl: string;
+  cgi: string;
+  request: SynologyApiRequest;
+  // The context the request was made with, minus sendRequest.
+  context: RequestContext;
+  // Sends the request as it would have been sent without sendRequest.
+  send: () => Promise<SynologyResponse<unknown>>;
+}
+
+// A request about to be sent, as handed to each RequestInterceptor.
+export interface InterceptedRequest {
+  baseUrl: string;
+  cgi: string;
+  request: SynologyApiRequest;
+}
+
+// Sees every request actually sent to the NAS: compound requests rather than the calls batched into
+// them, and each retry separately. Call `next` to continue, possibly with a modified request.
+// Failures other than the NAS's own are thrown, as usual.
+export type RequestInterceptor = (
+  intercepted: InterceptedRequest,
+  next: (intercepted: InterceptedRequest) => Promise<SynologyResponse<unknown>>,
+) => Promise<SynologyResponse<unknown>>;
+
+export interface RequestContext {
+  resolveApi?: ApiResolver;
+  // Defaults to fetchTransport.
+  transport?: Transport;
+  // If set, every JSON request (i.e. not uploads or downloads) goes through this instead of being
+  // sent directly, such as to batch them. See Entry.
+  sendRequest?: (outgoing: OutgoingRequest) => Promise<SynologyResponse<unknown>>;
+  // Throw MalformedResponseError for successful responses that don't match their schema, rather than
+  // passing through whatever couldn't be coerced.
+  strictResponses?: boolean;
+  // Outermost first.
+  interceptors?: RequestInterceptor[];
+}
+
+export async function resolveApi(
+  context: RequestContext | undefined,
+  api: string,
+  defaultCgi: string,
+  versions: ApiVersionRange,
+): Promise<ResolvedApi> {
+  const resolved = context?.resolveApi ? await context.resolveApi(api, versions) : undefined;
+  // Without any knowledge of the remote, assume the oldest supported version is the safest bet.
+  return resolved ?? { cgi: defaultCgi, version: versions.minVersion };
+}
+
+// Calls each interceptor in turn, outermost first, and then `send`.
+export function runInterceptors<V, R>(
+  interceptors: ((value: V, next: (value: V) => Promise<R>) => Promise<R>)[],
+  value: V,
+  send: (value: V) => Promise<R>,
+): Promise<R> {
+  const run = (index: number, v: V): Promise<R> =>
+    index < interceptors.length ? interceptors[index](v, (next) => run(index + 1, next)) : send(v);
+  return run(0, value);
+}
+
+function sendIntercepted<O>(
+  intercepted: InterceptedRequest,
+  context: RequestContext | undefined,
+  send: (intercepted: InterceptedRequest) => Promise<SynologyResponse<O>>,
+): Promise<SynologyResponse<O>> {
+  return runInterceptors(context?.interceptors ?? [], intercepted, send) as Promise<
+    SynologyResponse<O>
+  >;
+}
+
+// Coerces the data of a successful response to match the schema. See RequestContext#strictResponses.
+export function parseResponse<O>(
+  response: SynologyResponse<unknown>,
+  schema: Schema<O>,
+  api: string,
+  method: string,
+  context: RequestContext | undefined,
+): SynologyResponse<O> {
+  if (!response.success) {
+    return response;
+  }
+  const issues: SchemaIssue[] = [];
+  const data = schema.parse(response.data, "", issues);
+  if (issues.length > 0 && context?.strictResponses) {
+    throw new MalformedResponseError(api, method, issues);
+  }
+  return { ...response, data };
 }
 
 const DEFAULT_TIMEOUT = 60000;
 
+// Rejects with CancelledError as soon as the signal is aborted, even if the promise never settles.
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (signal == null) {
+    return promise;
+  } else if (signal.aborted) {
+    return Promise.reject(new CancelledError());
+  } else {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(new CancelledError());
+      };
+      signal.addEventListener("abort", onAbort);
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener("abort", onAbort);
+      });
+    });
+  }
+}
+
 async function fetchWithErrorHandling(
-  url: string,
-  init: RequestInit,
-  timeout: number | undefined,
-): Promise<unknown> {
-  const abortController = new AbortController();
-  const timeoutTimer = setTimeout(() => {
-    abortController.abort();
-  }, timeout ?? DEFAULT_TIMEOUT);
+  request: Omit<TransportRequest, "timeout" | "signal">,
+  { timeout, signal }: BaseRequest,
+  context: RequestContext | undefined,
+): Promise<TransportResponse> {
+  const transport = context?.transport ?? fetchTransport;
+  const response = await transport.request({
+    ...request,
+    timeout: timeout ?? DEFAULT_TIMEOUT,
+    signal,
+  });
+  if (!response.ok) {
+    throw new BadResponseError(response);
+  } else {
+    return response;
+  }
+}
 
+function makeGetUrl(baseUrl: string, cgi: string, request: SynologyApiRequest) {
+  return `${baseUrl}/webapi/${cgi}.cgi?${stringify({
+    ...request,
+    _sid: request.sid,
+    timeout: undefined,
+    retry: undefined,
+    queuePriority: undefined,
+    signal: undefined,
+  })}`;
+}
+
+function sendThroughContext<O extends object>(
+  baseUrl: string,
+  cgi: string,
+  request: SynologyApiRequest,
+  context: RequestContext | undefined,
+  send: (context: RequestContext | undefined) => Promise<SynologyResponse<O>>,
+): Promise<SynologyResponse<O>> {
+  if (context?.sendRequest) {
+    const { sendRequest, ...directContext } = context;
+    return sendRequest({
+      baseUrl,
+      cgi,
+      request,
+      context: directContext,
+      send: () => send(directContext),
+    }) as Promise<SynologyResponse<O>>;
+  } else {
+    return send(context);
+  }
+}
+
+export async function get<O extends object>(
+  baseUrl: string,
+  cgi: string,
+  request: SynologyApiRequest,
+  context?: RequestContext,
+): Promise<SynologyResponse<O>> {
+  return sendThroughContext(baseUrl, cgi, request, context, (context) =>
+    sendIntercepted<O>({ baseUrl, cgi, request }, context, async ({ baseUrl, cgi, request }) => {
+      const response = await fetchWithErrorHandling(
+        { method: "GET", url: makeGetUrl(baseUrl, cgi, request) },
+        request,
+        context,
+      );
+      return response.json() as Promise<SynologyResponse<O>>;
+    }),
+  );
+}
+
+// Inclusive on both ends, like the HTTP Range header. Omit `end` to read to the end of the file.
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface BinaryResponse {
+  contentType: string | undefined;
+  // Not always known, such as for zip files generated on the fly.
+  contentLength: number | undefined;
+  // Only present if a range was requested and the remote honored it. If a range was requested but
+  // this is absent, the body is the entire file.
+  contentRange?: {
+    start: number;
+    end: number;
+    total: number | undefined;
+  };
+  // Like fetch's Response, only one of these may be used, and only once.
+  blob(): Promise<Blob>;
+  // null if the transport can't stream responses.
+  body: ReadableStream<Uint8Array> | null;
+}
+
+export interface GetBinaryOptions {
+  range?: ByteRange;
+}
+
+function parseContentRange(header: string | null): BinaryResponse["contentRange"] {
+  const match = header ? /^bytes (\d+)-(\d+)\/(\d+|\*)$/.exec(header.trim()) : null;
+  if (match == null) {
+    return undefined;
+  } else {
+    return {
+      start: +match[1],
+      end: +match[2],
+      total: match[3] === "*" ? undefined : +match[3],
+    };
+  }
+}
+
+function asFailureResponse(text: string): SynologyFailureResponse | undefined {
   try {
-    const response = await fetch(url, {
-      ...init,
-      credentials: "omit",
-      signal: abortController.signal,
-    });
-    if (!response.ok) {
-      throw new BadResponseError(response);
-    } else {
-      return response.json();
-    }
-  } catch (e) {
-    if (e instanceof DOMException && e.name === "AbortError") {
-      throw new TimeoutError();
-    } else if (/networkerror/i.test(e?.message)) {
-      throw new NetworkError();
+    const parsed = JSON.parse(text);
+    return parsed?.success === false && parsed.error != null ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// For APIs that respond with file contents on success, but still respond with the usual JSON
+// envelope on failure.
+export function getBinary(
+  baseUrl: string,
+  cgi: string,
+  request: SynologyApiRequest,
+  context?: RequestContext,
+  options?: GetBinaryOptions,
+): Promise<SynologyResponse<BinaryResponse>> {
+  return sendIntercepted({ baseUrl, cgi, request }, context, ({ baseUrl, cgi, request }) =>
+    getBinaryDirectly(baseUrl, cgi, request, context, options),
+  );
+}
+
+async function getBinaryDirectly(
+  baseUrl: string,
+  cgi: string,
+  request: SynologyApiRequest,
+  context: RequestContext | undefined,
+  options: GetBinaryOptions | undefined,
+): Promise<SynologyResponse<BinaryResponse>> {
+  const range = options?.range;
+  const response = await fetchWithErrorHandling(
+    {
+      method: "GET",
+      url: makeGetUrl(baseUrl, cgi, request),
+      headers: range ? { range: `bytes=${range.start}-${range.end ?? ""}` } : undefined,
+    },
+    request,
+    context,
+  );
+
+  const contentType = response.headers.get("content-type") ?? undefined;
+  const contentLength = response.headers.get("content-length");
+  const metadata = {
+    contentType,
+    contentLength: contentLength == null ? undefined : +contentLength,
+    contentRange:
+      response.status === 206
+        ? parseContentRange(response.headers.get("content-range"))
+        : undefined,
+  };
+
+  // Failures are reported as JSON, but the content type isn't reliably application/json, so check
+  // anything text-like that doesn't look like a deliberate file download.
+  if (
+    contentType != null &&
+    (/json/i.test(contentType) ||
+      (/^text\//i.test(contentType) && response.headers.get("content-disposition") == null))
+  ) {
+    const blob = await response.blob();
+    const failure = asFailureResponse(await blob.text());
+    if (failure) {
+      return failure;
     } else {
-      throw e;
+      return {
+        success: true,
+        data: {
+          ...metadata,
+          blob: async () => blob,
+          body: blob.stream() as ReadableStream<Uint8Array>,
+        },
+      };
     }
-  } finally {
-    clearTimeout(timeoutTimer);
+  } else {
+    return {
+      success: true,
+      data: {
+        ...metadata,
+        blob: () => response.blob(),
+        // Some transports start consuming the response as soon as the stream is created.
+        get body() {
+          return response.body;
+        },
+      },
+    };
   }
 }
 
-export async function get<O extends object>(
+export interface PostOptions {
+  onUploadProgress?: UploadProgressListener;
+}
+
+export async function post<O extends object>(
   baseUrl: string,
   cgi: string,
   request: SynologyApiRequest,
+  context?: RequestContext,
+  options?: PostOptions,
 ): Promise<SynologyResponse<O>> {
-  const url = `${baseUrl}/webapi/${cgi}.cgi?${stringify({
-    ...request,
-    _sid: request.sid,
-    timeout: undefined,
-  })}`;
+  if (Object.keys(request).some((k) => isFormFile(request[k]))) {
+    return postDirectly(baseUrl, cgi, request, context, options);
+  } else {
+    return sendThroughContext(baseUrl, cgi, request, context, (context) =>
+      postDirectly(baseUrl, cgi, request, context, options),
+    );
+  }
+}
 
-  return fetchWithErrorHandling(url, { method: "GET" }, request.timeout) as Promise<
-    SynologyResponse<O>
-  >;
+function postDirectly<O extends object>(
+  baseUrl: string,
+  cgi: string,
+  request: SynologyApiRequest,
+  context: RequestContext | undefined,
+  options: PostOptions | undefined,
+): Promise<SynologyResponse<O>> {
+  return sendIntercepted<O>({ baseUrl, cgi, request }, context, ({ baseUrl, cgi, request }) =>
+    postForm(baseUrl, cgi, request, context, options),
+  );
 }
 
-export async function post<O extends object>(
+async function postForm<O extends object>(
   baseUrl: string,
   cgi: string,
   request: SynologyApiRequest,
+  context: RequestContext | undefined,
+  options: PostOptions | undefined,
 ): Promise<SynologyResponse<O>> {
-  const formData = new FormData();
+  const body: TransportFormField[] = [];
 
   Object.keys(request).forEach((k) => {
     const v = request[k];
-    if (k !== "timeout" && v !== undefined && !isFormFile(v)) {
+    if (!LOCAL_REQUEST_KEYS.includes(k) && v !== undefined && !isFormFile(v)) {
       // String() !== new String(). This produces lowercase-s strings, not capital-S Strings.
-      formData.append(k, String(v));
+      body.push({ name: k, value: String(v) });
     }
   });
 
   if (request.sid) {
-    formData.append("_sid", request.sid);
+    body.push({ name: "_sid", value: request.sid });
   }
 
   Object.keys(request).forEach((k) => {
     const v = request[k];
-    if (k !== "timeout" && v !== undefined && isFormFile(v)) {
-      formData.append(k, v.content, v.filename);
+    if (!LOCAL_REQUEST_KEYS.includes(k) && v !== undefined && isFormFile(v)) {
+      body.push({ name: k, value: v.content, filename: v.filename });
     }
   });
 
   const url = `${baseUrl}/webapi/${cgi}.cgi?${stringify({ _sid: request.sid })}`;
 
-  return fetchWithErrorHandling(
-    url,
-    { method: "POST", body: formData },
-    request.timeout,
-  ) as Promise<SynologyResponse<O>>;
+  const response = await fetchWithErrorHandling(
+    { method: "POST", url, body, onUploadProgress: options?.onUploadProgress },
+    request,
+    context,
+  );
+  return response.json() as Promise<SynologyResponse<O>>;
 }
 
+const DEFAULT_VERSIONS: ApiVersionRange = { minVersion: 1, maxVersion: 1 };
+
 export class ApiBuilder {
-  constructor(private cgiName: string, private apiName: string) {}
+  constructor(
+    private cgiName: string,
+    private apiName: string,
+    private versions: ApiVersionRange = DEFAULT_VERSIONS,
+  ) {}
 
   makeGet<I extends BaseRequest, O>(
     methodName: string,
-    preprocess?: (options: I) => object,
-    postprocess?: (response: O) => O,
-  ): (baseUrl: string, sid: string, options: I) => Promise<SynologyResponse<O>>;
+    preprocess: ((options: I) => object) | undefined,
+    responseSchema: Schema<O>,
+  ): (
+    baseUrl: string,
+    sid: string,
+    options: I,
+    context?: RequestContext,
+  ) => Promise<SynologyResponse<O>>;
   makeGet<I extends BaseRequest, O>(
     methodName: string,
     preprocess: ((options?: I) => object) | undefined,
-    postprocess: ((response: O) => O) | undefined,
+    responseSchema: Schema<O>,
     optional: true,
-  ): (baseUrl: string, sid: string, options?: I) => Promise<SynologyResponse<O>>;
+  ): (
+    baseUrl: string,
+    sid: string,
+    options?: I,
+    context?: RequestContext,
+  ) => Promise<SynologyResponse<O>>;
 
   makeGet(
     methodName: string,
-    preprocess?: (options: object) => object,
-    postprocess?: (response: object) => object,
+    preprocess: ((options: object) => object) | undefined,
+    responseSchema: Schema<any>,
     _optional?: true,
   ) {
-    return this.makeApiRequest(get, methodName, preprocess, postprocess);
+    return this.makeApiRequest(get, methodName, preprocess, responseSchema);
   }
 
   makePost<I extends BaseRequest, O>(
     methodName: string,
-    preprocess?: (options: I) => object,
-    postprocess?: (response: O) => O,
-  ): (baseUrl: string, sid: string, options: I) => Promise<SynologyResponse<O>>;
+    preprocess: ((options: I) => object) | undefined,
+    responseSchema: Schema<O>,
+  ): (
+    baseUrl: string,
+    sid: string,
+    options: I,
+    context?: RequestContext,
+  ) => Promise<SynologyResponse<O>>;
   makePost<I extends BaseRequest, O>(
     methodName: string,
     preprocess: ((options?: I) => object) | undefined,
-    postprocess: ((response: O) => O) | undefined,
+    responseSchema: Schema<O>,
     optional: true,
-  ): (baseUrl: string, sid: string, options?: I) => Promise<SynologyResponse<O>>;
+  ): (
+    baseUrl: string,
+    sid: string,
+    options?: I,
+    context?: RequestContext,
+  ) => Promise<SynologyResponse<O>>;
 
   makePost(
     methodName: string,
-    preprocess?: (options: object) => object,
-    postprocess?: (response: object) => object,
+    preprocess: ((options: object) => object) | undefined,
+    responseSchema: Schema<any>,
     _optional?: true,
   ) {
-    return this.makeApiRequest(post, methodName, preprocess, postprocess);
+    return this.makeApiRequest(post, methodName, preprocess, responseSchema);
   }
 
   private makeApiRequest(
     method: typeof get | typeof post,
     methodName: string,
-    preprocess?: (options: object) => object,
-    postprocess?: (response: object) => object,
+    preprocess: ((options: object) => object) | undefined,
+    responseSchema: Schema<any>,
   ) {
     preprocess = preprocess || ((o) => o);
-    postprocess = postprocess || ((r) => r);
-    return async (baseUrl: string, sid: string, options?: object) => {
-      const response = await method(baseUrl, this.cgiName, {
-        ...preprocess!(options || {}),
-        api: this.apiName,
-        version: 1,
-        method: methodName,
-        sid,
-      });
-      if (response.success) {
-        return { ...response, data: postprocess!(response.data) };
-      } else {
-        return response;
-      }
+    return async (baseUrl: string, sid: string, options?: object, context?: RequestContext) => {
+      const { cgi, version } = await resolveApi(context, this.apiName, this.cgiName, this.versions);
+      const response = await method(
+        baseUrl,
+        cgi,
+        {
+          ...preprocess!(options || {}),
+          api: this.apiName,
+          version,
+          method: methodName,
+          sid,
+        },
+        context,
+      );
+      return parseResponse(response, responseSchema, this.apiName, methodName, context);
     };
   }
 }
@@ -0,0 +1,202 @@
+export interface TransportResponse {
+  status: number;
+  ok: boolean;
+  headers: {
+    get(name: string): string | null;
+  };
+  // Like fetch's Response, only one of these may be used, and only once.
+  json(): Promise<unknown>;
+  blob(): Promise<Blob>;
+  // null if the transport can't stream responses.
+  body: ReadableStream<Uint8Array> | null;
+}
+
+export class BadResponseError extends Error {
+  constructor(public response: TransportResponse) {
+    super();
+  }
+}
+export class TimeoutError extends Error {}
+export class NetworkError extends Error {}
+export class CancelledError extends Error {}
+
+export type TransportFormField =
+  | {
+      name: string;
+      value: string;
+    }
+  | {
+      name: string;
+      value: Blob;
+      filename: string;
+    };
+
+export interface UploadProgress {
+  // Both in bytes, including multipart overhead.
+  loaded: number;
+  total: number;
+}
+
+export type UploadProgressListener = (progress: UploadProgress) => void;
+
+export interface TransportRequest {
+  method: "GET" | "POST";
+  url: string;
+  // Only provided for POSTs, which are always sent as multipart/form-data. Order matters: the NAS
+  // wants files to come after all the regular fields.
+  body?: TransportFormField[];
+  headers?: Record<string, string>;
+  // Covers the time until the response headers arrive, but not reading the body. While the body is
+  // being sent, only time without any progress counts, so that slow uploads aren't cut off.
+  timeout: number;
+  // Like the timeout, only covers the time until the response headers arrive.
+  signal?: AbortSignal;
+  // Best-effort: transports that can't observe upload progress may call this rarely or never.
+  onUploadProgress?: UploadProgressListener;
+}
+
+// Implementations are responsible for enforcing the timeout and the signal, and for reporting
+// failures using the error classes above: TimeoutError when the timeout elapses, CancelledError
+// when the signal is aborted (including before the request is made) and NetworkError when the
+// remote can't be reached at all. Non-2xx responses should be returned, not thrown.
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>;
+}
+
+function toFormData(body: TransportFormField[]) {
+  const formData = new FormData();
+  body.forEach((field) => {
+    if ("filename" in field) {
+      formData.append(field.name, field.value, field.filename);
+    } else {
+      formData.append(field.name, field.value);
+    }
+  });
+  return formData;
+}
+
+function hasFile(body: TransportFormField[] | undefined) {
+  return body != null && body.some((field) => "filename" in field);
+}
+
+// fetch() has no way to observe upload progress, so fall back to XHR for uploads, both to report it
+// and to know whether the upload is still going.
+function xhrRequest(
+  { method, url, headers, timeout, signal }: TransportRequest,
+  formData: FormData | undefined,
+  onUploadProgress: UploadProgressListener | undefined,
+): Promise<TransportResponse> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    xhr.withCredentials = false;
+    xhr.responseType = "blob";
+    Object.keys(headers ?? {}).forEach((k) => {
+      xhr.setRequestHeader(k, headers![k]);
+    });
+    // xhr.timeout covers the whole upload, so restart our own timer whenever it makes progress.
+    let isTimedOut = false;
+    let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimeout = () => {
+      clearTimeout(timeoutTimer);
+      timeoutTimer = setTimeout(() => {
+        isTimedOut = true;
+        xhr.abort();
+      }, timeout);
+    };
+    xhr.upload.onprogress = (e) => {
+      restartTimeout();
+      if (e.lengthComputable) {
+        onUploadProgress?.({ loaded: e.loaded, total: e.total });
+      }
+    };
+    xhr.upload.onload = restartTimeout;
+    const onAbort = () => {
+      xhr.abort();
+    };
+    // Signals may be shared by many requests, so don't keep this one around once it's done.
+    const cleanUp = () => {
+      clearTimeout(timeoutTimer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    xhr.onload = () => {
+      cleanUp();
+      const blob: Blob = xhr.response;
+      resolve({
+        status: xhr.status,
+        ok: xhr.status >= 200 && xhr.status < 300,
+        headers: {
+          get: (name) => xhr.getResponseHeader(name),
+        },
+        json: async () => JSON.parse(await blob.text()),
+        blob: async () => blob,
+        body: null,
+      });
+    };
+    xhr.onerror = () => {
+      cleanUp();
+      reject(new NetworkError());
+    };
+    xhr.onabort = () => {
+      cleanUp();
+      reject(isTimedOut ? new TimeoutError() : new CancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    restartTimeout();
+    xhr.send(formData);
+  });
+}
+
+export const fetchTransport: Transport = {
+  request: async (request) => {
+    const { method, url, body, headers, timeout, signal, onUploadProgress } = request;
+    if (signal?.aborted) {
+      throw new CancelledError();
+    }
+    const formData = body ? toFormData(body) : undefined;
+
+    const isUpload = hasFile(body);
+    // XMLHttpRequest doesn't exist in e.g. service workers, in which case progress goes unreported.
+    if ((onUploadProgress || isUpload) && typeof XMLHttpRequest !== "undefined") {
+      return xhrRequest(request, formData, onUploadProgress);
+    }
+
+    const abortController = new AbortController();
+    let isTimedOut = false;
+    // Without XHR there's no telling a slow upload from a stalled one, so only the signal can stop
+    // uploads.
+    const timeoutTimer = isUpload
+      ? undefined
+      : setTimeout(() => {
+          isTimedOut = true;
+          abortController.abort();
+        }, timeout);
+    const onAbort = () => {
+      abortController.abort();
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      return await fetch(url, {
+        method,
+        body: formData,
+        headers,
+        credentials: "omit",
+        signal: abortController.signal,
+      });
+    } catch (e) {
+      if (e?.name === "AbortError") {
+        throw isTimedOut ? new TimeoutError() : new CancelledError();
+      } else if (e instanceof TypeError) {
+        // fetch() rejects with a TypeError for any kind of network failure, though the message
+        // varies wildly between implementations.
+        throw new NetworkError(e.message);
+      } else {
+        throw e;
+      }
+    } finally {
+      clearTimeout(timeoutTimer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  },
+};
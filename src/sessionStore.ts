@@ -0,0 +1,82 @@
+import type { SessionName } from "./rest";
+
+// Everything needed to reuse a session without logging in again. The other fields identify who
+// the sid belongs to, so that a client with different settings knows to ignore it.
+export interface StoredSession {
+  baseUrl: string;
+  account: string;
+  session: SessionName;
+  sid: string;
+}
+
+// Where ApiClient keeps its session between restarts. Any of these may reject, in which case the
+// client carries on as if there were no store.
+export interface SessionStore {
+  load(): Promise<StoredSession | undefined>;
+  save(session: StoredSession): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Returns undefined for anything that isn't a serialized StoredSession, such as a file left behind
+// by an older version or edited by hand.
+export function parseStoredSession(serialized: string): StoredSession | undefined {
+  let value: any;
+  try {
+    value = JSON.parse(serialized);
+  } catch (e) {
+    return undefined;
+  }
+  if (
+    value != null &&
+    typeof value.baseUrl === "string" &&
+    typeof value.account === "string" &&
+    typeof value.session === "string" &&
+    typeof value.sid === "string"
+  ) {
+    const { baseUrl, account, session, sid } = value;
+    return { baseUrl, account, session, sid };
+  } else {
+    return undefined;
+  }
+}
+
+// Doesn't survive a restart, but can be shared between clients.
+export class MemorySessionStore implements SessionStore {
+  constructor(private session?: StoredSession) {}
+
+  public async load() {
+    return this.session;
+  }
+
+  public async save(session: StoredSession) {
+    this.session = session;
+  }
+
+  public async clear() {
+    this.session = undefined;
+  }
+}
+
+const DEFAULT_LOCAL_STORAGE_KEY = "synology-typescript-api:session";
+
+// For browsers and extensions. `storage` defaults to the global localStorage, but anything with the
+// same interface (such as sessionStorage) will do.
+export class LocalStorageSessionStore implements SessionStore {
+  constructor(
+    private key: string = DEFAULT_LOCAL_STORAGE_KEY,
+    private storage: Pick<Storage, "getItem" | "setItem" | "removeItem"> = localStorage,
+  ) {}
+
+  public async load() {
+    const serialized = this.storage.getItem(this.key);
+    return serialized == null ? undefined : parseStoredSession(serialized);
+  }
+
+  public async save(session: StoredSession) {
+    this.storage.setItem(this.key, JSON.stringify(session));
+  }
+
+  public async clear() {
+    this.storage.removeItem(this.key);
+  }
+}
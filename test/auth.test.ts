@@ -0,0 +1,82 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { Auth, FakeDiskStation, FakeDiskStationOptions, isConnectionFailure } from "../src";
+import { assertSuccess, createClient, requestsTo } from "./fixtures";
+
+const OTP_CODE = "123456";
+
+function createFake(options: FakeDiskStationOptions = {}) {
+  return new FakeDiskStation({ otpCodes: { admin: OTP_CODE }, ...options });
+}
+
+function answerWith(...codes: (string | undefined)[]) {
+  const reasons: string[] = [];
+  const requestOtpCode = async (reason: string) => {
+    reasons.push(reason);
+    return codes.shift();
+  };
+  return { reasons, requestOtpCode };
+}
+
+describe("Auth.Login", () => {
+  const login = { account: "admin", passwd: "admin", session: "DownloadStation" as const };
+
+  it("asks for version 6 for device tokens, even without knowing what the NAS supports", async () => {
+    const fake = createFake();
+    await Auth.Login("http://diskstation.test", login, { transport: fake });
+    await Auth.Login(
+      "http://diskstation.test",
+      { ...login, device_id: "did" },
+      { transport: fake },
+    );
+    assert.deepEqual(
+      requestsTo(fake, Auth.API_NAME, "login").map((r) => r.version),
+      [2, 6],
+    );
+  });
+
+  it("fails device token logins to a NAS without version 6", async () => {
+    const fake = createFake({
+      apiInfo: { [Auth.API_NAME]: { path: "auth.cgi", minVersion: 1, maxVersion: 3 } },
+    });
+    const client = createClient(fake, { deviceId: "did" });
+    assert.deepEqual(await client.DownloadStation.Task.List(), {
+      type: "unsupported-api",
+      api: Auth.API_NAME,
+    });
+  });
+});
+
+describe("logging in with 2-step verification", () => {
+  it("asks for a code, and again if it's wrong", async () => {
+    const { reasons, requestOtpCode } = answerWith("000000", OTP_CODE);
+    const client = createClient(createFake(), { requestOtpCode });
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.deepEqual(reasons, ["otp-required", "otp-failed"]);
+  });
+
+  it("fails with otp-required when there's no code", async () => {
+    const fake = createFake();
+    const { requestOtpCode } = answerWith(undefined);
+    const response = await createClient(fake, { requestOtpCode }).DownloadStation.Task.List();
+    assert.ok(isConnectionFailure(response));
+    assert.equal(response.type, "otp-required");
+    assert.equal(requestsTo(fake, Auth.API_NAME, "login").length, 1);
+  });
+
+  it("skips the code on trusted devices", async () => {
+    const fake = createFake();
+    const first = createClient(fake, {
+      deviceName: "test",
+      requestOtpCode: answerWith(OTP_CODE).requestOtpCode,
+    });
+    assertSuccess(await first.DownloadStation.Task.List());
+    assert.ok(first.deviceId != null);
+
+    const { reasons, requestOtpCode } = answerWith();
+    const second = createClient(fake, { deviceId: first.deviceId, requestOtpCode });
+    assertSuccess(await second.DownloadStation.Task.List());
+    assert.deepEqual(reasons, []);
+  });
+});
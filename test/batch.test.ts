@@ -0,0 +1,284 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Auth,
+  CancelledError,
+  DownloadStation,
+  Entry,
+  FakeDiskStation,
+  NetworkError,
+  RequestCoalescer,
+  RequestContext,
+  RequestInterceptor,
+  TransportRequest,
+  batchCall,
+  isConnectionFailure,
+} from "../src";
+import { UnsupportedApiError } from "../src/rest/shared";
+import { assertSuccess, createClient, requestsTo } from "./fixtures";
+
+const BASE_URL = "http://diskstation.test";
+const TASK_API = DownloadStation.Task.API_NAME;
+const STATISTIC_API = DownloadStation.Statistic.API_NAME;
+
+function createFake() {
+  return new FakeDiskStation({ tasks: [{ title: "a.iso" }] });
+}
+
+async function login(fake: FakeDiskStation) {
+  const response = await Auth.Login(
+    BASE_URL,
+    { account: "admin", passwd: "admin", session: "DownloadStation" },
+    { transport: fake },
+  );
+  assert.ok(response.success);
+  return response.data.sid;
+}
+
+// Passes requests through to the fake, keeping them for inspection.
+function spyOn(fake: FakeDiskStation) {
+  const sent: TransportRequest[] = [];
+  const transport = {
+    request: (request: TransportRequest) => {
+      sent.push(request);
+      return fake.request(request);
+    },
+  };
+  return { sent, transport };
+}
+
+describe("Entry.Request.batch", () => {
+  it("returns each call's response, failures included, from one request", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    fake.injectError({ api: STATISTIC_API, code: 400 });
+
+    const response = await Entry.Request.batch(
+      BASE_URL,
+      sid,
+      {
+        calls: [
+          batchCall(DownloadStation.Task.List, {}),
+          batchCall(DownloadStation.Statistic.GetInfo, {}),
+          batchCall(DownloadStation.Info.GetInfo, {}),
+        ],
+      },
+      { transport: fake },
+    );
+    assert.ok(response.success);
+    const [list, statistic, info] = response.data;
+    assert.ok(list !== "skipped" && !("thrown" in list) && list.success);
+    assert.equal(list.data.tasks[0].title, "a.iso");
+    assert.deepEqual(statistic, { success: false, error: { code: 400 } });
+    assert.ok(info !== "skipped" && !("thrown" in info) && info.success);
+    assert.equal(requestsTo(fake, Entry.Request.API_NAME).length, 1);
+  });
+
+  it("marks the calls after a failure as skipped with stop_when_error", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    fake.injectError({ api: TASK_API, code: 400 });
+
+    const response = await Entry.Request.batch(
+      BASE_URL,
+      sid,
+      {
+        calls: [
+          batchCall(DownloadStation.Task.List, {}),
+          batchCall(DownloadStation.Statistic.GetInfo, {}),
+        ],
+        stop_when_error: true,
+      },
+      { transport: fake },
+    );
+    assert.ok(response.success);
+    assert.deepEqual(response.data, [{ success: false, error: { code: 400 } }, "skipped"]);
+  });
+
+  it("keeps the others when a call throws before making its request", async () => {
+    const fake = new FakeDiskStation({ apiInfo: { [STATISTIC_API]: undefined } });
+    const client = createClient(fake);
+
+    const response = await client.Entry.Request.batch({
+      calls: [
+        batchCall(DownloadStation.Statistic.GetInfo, {}),
+        batchCall(DownloadStation.Task.List, {}),
+      ],
+    });
+    assert.ok(!isConnectionFailure(response) && response.success);
+    const [statistic, list] = response.data;
+    assert.ok(statistic !== "skipped" && "thrown" in statistic);
+    assert.ok(statistic.thrown instanceof UnsupportedApiError);
+    assert.ok(list !== "skipped" && !("thrown" in list) && list.success);
+  });
+
+  it("fails as a whole when the compound request does", async () => {
+    const fake = createFake();
+
+    const response = await Entry.Request.batch(
+      BASE_URL,
+      "expired",
+      { calls: [batchCall(DownloadStation.Task.List, {})] },
+      { transport: fake },
+    );
+    assert.deepEqual(response, { success: false, error: { code: 105 } });
+  });
+
+  it("rejects as a whole when the compound request does", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    fake.injectConnectionFailure("network");
+
+    await assert.rejects(
+      Entry.Request.batch(
+        BASE_URL,
+        sid,
+        {
+          calls: [
+            batchCall(DownloadStation.Task.List, {}),
+            batchCall(DownloadStation.Statistic.GetInfo, {}),
+          ],
+        },
+        { transport: fake },
+      ),
+      NetworkError,
+    );
+  });
+});
+
+describe("RequestCoalescer", () => {
+  it("sends calls from the same tick as one compound request", async () => {
+    const fake = createFake();
+    const client = createClient(fake, { autoBatch: true });
+    assertSuccess(await client.DownloadStation.Info.GetInfo());
+    fake.injectError({ api: STATISTIC_API, code: 400 });
+
+    const [list, statistic] = await Promise.all([
+      client.DownloadStation.Task.List(),
+      client.DownloadStation.Statistic.GetInfo(),
+    ]);
+    assert.ok(!isConnectionFailure(list) && list.success);
+    assert.equal(list.data.tasks[0].title, "a.iso");
+    assert.deepEqual(statistic, { success: false, error: { code: 400 } });
+    assert.equal(requestsTo(fake, Entry.Request.API_NAME).length, 1);
+  });
+
+  it("never batches logins or API discovery", async () => {
+    const fake = createFake();
+    const client = createClient(fake, { autoBatch: true });
+
+    await Promise.all([client.DownloadStation.Task.List(), client.DownloadStation.Info.GetInfo()]);
+    assert.equal(requestsTo(fake, Auth.API_NAME, "login").length, 1);
+    const compound = requestsTo(fake, Entry.Request.API_NAME).flatMap(
+      (r) => JSON.parse(r.params.compound as string) as { api: string }[],
+    );
+    assert.ok(compound.every((c) => c.api !== Auth.API_NAME && !c.api.startsWith("SYNO.API.")));
+  });
+
+  it("fails every call when the compound request fails or rejects", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    const coalescer = new RequestCoalescer();
+    const context: RequestContext = { transport: fake, sendRequest: coalescer.sendRequest };
+    const both = () =>
+      Promise.allSettled([
+        DownloadStation.Task.List(BASE_URL, sid, {}, context),
+        DownloadStation.Statistic.GetInfo(BASE_URL, sid, {}, context),
+      ]);
+
+    fake.injectError({ api: Entry.Request.API_NAME, code: 119 });
+    assert.deepEqual(
+      (await both()).map((r) => r.status === "fulfilled" && r.value),
+      [
+        { success: false, error: { code: 119 } },
+        { success: false, error: { code: 119 } },
+      ],
+    );
+
+    fake.injectConnectionFailure("network");
+    const rejected = await both();
+    assert.ok(rejected.every((r) => r.status === "rejected" && r.reason instanceof NetworkError));
+  });
+
+  it("sends with the first call's context and the largest timeout", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    const coalescer = new RequestCoalescer();
+    const first = spyOn(fake);
+    const second = spyOn(fake);
+
+    await Promise.all([
+      DownloadStation.Task.List(
+        BASE_URL,
+        sid,
+        { timeout: 1000 },
+        { transport: first.transport, sendRequest: coalescer.sendRequest },
+      ),
+      DownloadStation.Statistic.GetInfo(
+        BASE_URL,
+        sid,
+        { timeout: 5000 },
+        { transport: second.transport, sendRequest: coalescer.sendRequest },
+      ),
+    ]);
+    assert.equal(first.sent.length, 1);
+    assert.equal(first.sent[0].timeout, 5000);
+    assert.equal(second.sent.length, 0);
+  });
+
+  it("doesn't apply the first call's strictResponses to the others", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    const coalescer = new RequestCoalescer();
+    // Garbles the part of the compound response that belongs to no call in particular.
+    const garbleEnvelope: RequestInterceptor = async (intercepted, next) => {
+      const response = await next(intercepted);
+      return intercepted.request.api === Entry.Request.API_NAME && response.success
+        ? { ...response, data: { ...(response.data as object), has_fail: "no" } }
+        : response;
+    };
+
+    const [list, statistic] = await Promise.all([
+      DownloadStation.Task.List(
+        BASE_URL,
+        sid,
+        {},
+        {
+          transport: fake,
+          sendRequest: coalescer.sendRequest,
+          strictResponses: true,
+          interceptors: [garbleEnvelope],
+        },
+      ),
+      DownloadStation.Statistic.GetInfo(
+        BASE_URL,
+        sid,
+        {},
+        { transport: fake, sendRequest: coalescer.sendRequest },
+      ),
+    ]);
+    assert.ok(list.success);
+    assert.ok(statistic.success);
+  });
+
+  it("only abandons the call whose signal was aborted", async () => {
+    const fake = createFake();
+    const sid = await login(fake);
+    const coalescer = new RequestCoalescer();
+    const controller = new AbortController();
+    const context: RequestContext = { transport: fake, sendRequest: coalescer.sendRequest };
+
+    const aborted = DownloadStation.Task.List(
+      BASE_URL,
+      sid,
+      { signal: controller.signal },
+      context,
+    );
+    const kept = DownloadStation.Statistic.GetInfo(BASE_URL, sid, {}, context);
+    controller.abort();
+
+    await assert.rejects(aborted, CancelledError);
+    assert.ok((await kept).success);
+    assert.equal(requestsTo(fake, Entry.Request.API_NAME).length, 1);
+  });
+});
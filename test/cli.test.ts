@@ -0,0 +1,90 @@
+import { strict as assert } from "assert";
+import { after, before, describe, it } from "node:test";
+import { FakeDiskStation } from "../src";
+import { FakeDiskStationServer, serveFakeDiskStation } from "../src/node";
+import { main } from "../src/cli/main";
+import { ExitCode } from "../src/cli/errors";
+
+async function run(argv: string[], env: NodeJS.ProcessEnv) {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const exitCode = await main(
+    argv,
+    { stdout: (text) => stdout.push(text), stderr: (text) => stderr.push(text) },
+    // So that no real config file is found.
+    { XDG_CONFIG_HOME: "/nonexistent", ...env },
+  );
+  return { exitCode, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+describe("synology", () => {
+  const fake = new FakeDiskStation({
+    accounts: { admin: "hunter2" },
+    tasks: [{ title: "ubuntu.iso", status: "downloading" }],
+  });
+  let server: FakeDiskStationServer;
+  let env: NodeJS.ProcessEnv;
+
+  before(async () => {
+    server = await serveFakeDiskStation(fake);
+    env = {
+      SYNOLOGY_URL: server.baseUrl,
+      SYNOLOGY_ACCOUNT: "admin",
+      SYNOLOGY_PASSWORD: "hunter2",
+    };
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("succeeds, and logs out afterwards", async () => {
+    const { exitCode, stdout } = await run(["tasks", "list", "--json"], env);
+    assert.equal(exitCode, ExitCode.OK);
+    assert.equal(JSON.parse(stdout)[0].title, "ubuntu.iso");
+    assert.equal(fake.requests[fake.requests.length - 1].method, "logout");
+  });
+
+  it("exits with USAGE for bad arguments and missing configuration", async () => {
+    assert.equal((await run(["bogus"], env)).exitCode, ExitCode.USAGE);
+    assert.equal((await run(["config", "set", "nope=1"], env)).exitCode, ExitCode.USAGE);
+    assert.equal((await run(["config", "get", "toString"], env)).exitCode, ExitCode.USAGE);
+    assert.equal((await run(["tasks", "list"], {})).exitCode, ExitCode.USAGE);
+  });
+
+  it("exits with LOGIN for bad credentials", async () => {
+    const { exitCode } = await run(["tasks", "list"], { ...env, SYNOLOGY_PASSWORD: "wrong" });
+    assert.equal(exitCode, ExitCode.LOGIN);
+  });
+
+  it("exits with CONNECTION when the NAS can't be reached", async () => {
+    const { exitCode } = await run(["tasks", "list"], {
+      ...env,
+      SYNOLOGY_URL: "http://127.0.0.1:1",
+    });
+    assert.equal(exitCode, ExitCode.CONNECTION);
+  });
+
+  it("exits with NOT_FOUND for missing tasks and files", async () => {
+    assert.equal((await run(["tasks", "pause", "dbid_999"], env)).exitCode, ExitCode.NOT_FOUND);
+    assert.equal((await run(["fs", "ls", "/nope"], env)).exitCode, ExitCode.NOT_FOUND);
+  });
+
+  it("exits with PERMISSION when the NAS says no", async () => {
+    fake.injectError({ api: "SYNO.DownloadStation.Task", method: "create", code: 402 });
+    const { exitCode } = await run(["tasks", "add", "https://example.com/b.iso"], env);
+    assert.equal(exitCode, ExitCode.PERMISSION);
+  });
+
+  it("reports the tasks it added before failing", async () => {
+    const { exitCode, stdout } = await run(
+      ["tasks", "add", "https://example.com/a.iso", "/nonexistent.torrent", "--json"],
+      env,
+    );
+    assert.equal(exitCode, ExitCode.NOT_FOUND);
+    assert.deepEqual(JSON.parse(stdout), {
+      added: ["https://example.com/a.iso"],
+      failed: ["/nonexistent.torrent"],
+    });
+  });
+});
@@ -0,0 +1,428 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  ApiCall,
+  DownloadStation,
+  FakeDiskStation,
+  MemorySessionStore,
+  RequestInterceptor,
+  isConnectionFailure,
+} from "../src";
+import {
+  assertSuccess,
+  collectEvents,
+  createClient,
+  createGate,
+  delay,
+  requestsTo,
+} from "./fixtures";
+
+const TASK_API = DownloadStation.Task.API_NAME;
+
+// ------------------------------------------------------------------------- //
+//                                  Logins                                   //
+// ------------------------------------------------------------------------- //
+
+describe("logging in", () => {
+  it("logs in once for concurrent calls", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    await Promise.all([client.DownloadStation.Task.List(), client.DownloadStation.Task.List()]);
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 1);
+  });
+
+  it("logs in again when the session expires", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    const retries = collectEvents(client, "retry");
+    assertSuccess(await client.DownloadStation.Task.List());
+
+    fake.expireSessions();
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 2);
+    assert.deepEqual(
+      retries.map((r) => [r.reason, r.delay]),
+      [["session-expired", 0]],
+    );
+  });
+
+  it("logs in again when the NAS forgets the session", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    assertSuccess(await client.DownloadStation.Task.List());
+
+    fake.clearSessions();
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 2);
+  });
+
+  it("replaces a stale stored session with a fresh login", async () => {
+    const fake = new FakeDiskStation();
+    const sessionStore = new MemorySessionStore({
+      baseUrl: "http://diskstation.test",
+      account: "admin",
+      session: "DownloadStation",
+      sid: "stale",
+    });
+    const client = createClient(fake, { sessionStore });
+    const logins = collectEvents(client, "login");
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.deepEqual(
+      logins.map((l) => l.restored),
+      [true, false],
+    );
+    assert.equal((await sessionStore.load())?.sid, fake.sids[0]);
+  });
+
+  it("reports bad credentials without retrying", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { passwd: "wrong" });
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(!isConnectionFailure(response) && !response.success);
+    assert.equal(response.error.code, 400);
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 1);
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                                  Retries                                  //
+// ------------------------------------------------------------------------- //
+
+describe("retrying", () => {
+  it("retries transient errors with a delay", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    const retries = collectEvents(client, "retry");
+    fake.injectError({ api: TASK_API, method: "list", code: 117, times: 2 });
+
+    assertSuccess(await client.DownloadStation.Task.List({ retry: { maxAttempts: 3 } }));
+    assert.equal(requestsTo(fake, TASK_API, "list").length, 3);
+    assert.deepEqual(
+      retries.map((r) => [r.attempt, r.reason]),
+      [
+        [1, "failure"],
+        [2, "failure"],
+      ],
+    );
+  });
+
+  it("gives up after maxAttempts", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    fake.injectError({ api: TASK_API, method: "list", code: 117, times: 5 });
+
+    const response = await client.DownloadStation.Task.List({ retry: { maxAttempts: 3 } });
+    assert.ok(!isConnectionFailure(response) && !response.success);
+    assert.equal(response.error.code, 117);
+    assert.equal(requestsTo(fake, TASK_API, "list").length, 3);
+  });
+
+  it("doesn't retry errors that won't go away", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    fake.injectError({ api: TASK_API, method: "list", code: 408 });
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(!isConnectionFailure(response) && !response.success);
+    assert.equal(requestsTo(fake, TASK_API, "list").length, 1);
+  });
+
+  it("retries timeouts only for idempotent calls", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    assertSuccess(await client.DownloadStation.Task.List());
+
+    fake.injectConnectionFailure("timeout");
+    assertSuccess(await client.DownloadStation.Task.List());
+
+    fake.injectConnectionFailure("timeout");
+    const response = await client.DownloadStation.Task.Create({ uri: ["https://example.com/a"] });
+    assert.ok(isConnectionFailure(response));
+    assert.equal(response.type, "timeout");
+    assert.equal(fake.getTasks().length, 0);
+  });
+  it("drops an expired session even when the call doesn't retry", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { retry: { maxAttempts: 1 } });
+    assertSuccess(await client.DownloadStation.Task.List());
+    fake.expireSessions();
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(!isConnectionFailure(response) && !response.success);
+    assert.equal(response.error.code, 106);
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 2);
+  });
+
+  it("drops an expired session even when isRetryable turns it down", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { retry: { isRetryable: () => false } });
+    assertSuccess(await client.DownloadStation.Task.List());
+    fake.clearSessions();
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(!isConnectionFailure(response) && !response.success);
+    assert.equal(response.error.code, 105);
+    assertSuccess(await client.DownloadStation.Task.List());
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                                   Queue                                   //
+// ------------------------------------------------------------------------- //
+
+describe("the request queue", () => {
+  it("runs waiting calls in order of priority", async () => {
+    const fake = new FakeDiskStation();
+    const gate = createGate(TASK_API);
+    const client = createClient(fake, {
+      maxConcurrentRequests: 1,
+      requestInterceptors: [gate.interceptor],
+    });
+    await client.DownloadStation.Info.GetInfo();
+
+    const calls = [
+      client.DownloadStation.Task.List({ offset: 1 }),
+      client.DownloadStation.Task.List({ offset: 2, queuePriority: "background" }),
+      client.DownloadStation.Task.List({ offset: 3, queuePriority: "interactive" }),
+    ];
+    await delay(10);
+    assert.deepEqual(gate.arrived, [1]);
+
+    gate.release();
+    (await Promise.all(calls)).forEach(assertSuccess);
+    assert.deepEqual(gate.arrived, [1, 3, 2]);
+  });
+
+  it("times out calls that wait too long, without sending them", async () => {
+    const fake = new FakeDiskStation();
+    const gate = createGate(TASK_API);
+    const client = createClient(fake, {
+      maxConcurrentRequests: 1,
+      requestInterceptors: [gate.interceptor],
+    });
+    await client.DownloadStation.Info.GetInfo();
+
+    const first = client.DownloadStation.Task.List({ offset: 1 });
+    const response = await client.DownloadStation.Task.List({ offset: 2, timeout: 20 });
+    assert.ok(isConnectionFailure(response));
+    assert.equal(response.type, "timeout");
+
+    gate.release();
+    assertSuccess(await first);
+    assert.deepEqual(gate.arrived, [1]);
+  });
+
+  it("treats a limit below 1 as 1", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { maxConcurrentRequests: 0 });
+    assertSuccess(await client.DownloadStation.Task.List());
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                               Cancellation                                //
+// ------------------------------------------------------------------------- //
+
+describe("cancellation", () => {
+  it("stops a call waiting to retry", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { retry: { initialDelay: 60000 } });
+    const controller = new AbortController();
+    client.on("retry", () => {
+      controller.abort();
+    });
+    fake.injectError({ api: TASK_API, method: "list", code: 117 });
+
+    const response = await client.DownloadStation.Task.List({ signal: controller.signal });
+    assert.deepEqual(response, { type: "cancelled" });
+    assert.equal(requestsTo(fake, TASK_API, "list").length, 1);
+  });
+
+  it("stops a call waiting in the queue, without sending it", async () => {
+    const fake = new FakeDiskStation();
+    const gate = createGate(TASK_API);
+    const client = createClient(fake, {
+      maxConcurrentRequests: 1,
+      requestInterceptors: [gate.interceptor],
+    });
+    await client.DownloadStation.Info.GetInfo();
+    const controller = new AbortController();
+
+    const first = client.DownloadStation.Task.List({ offset: 1 });
+    const second = client.DownloadStation.Task.List({ offset: 2, signal: controller.signal });
+    await delay(10);
+    controller.abort();
+    assert.deepEqual(await second, { type: "cancelled" });
+
+    gate.release();
+    assertSuccess(await first);
+    assert.deepEqual(gate.arrived, [1]);
+  });
+
+  it("doesn't send a call whose signal has already aborted", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+    const controller = new AbortController();
+    controller.abort();
+
+    const response = await client.DownloadStation.Task.List({ signal: controller.signal });
+    assert.deepEqual(response, { type: "cancelled" });
+    assert.equal(requestsTo(fake, TASK_API).length, 0);
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                              Strict Schemas                               //
+// ------------------------------------------------------------------------- //
+
+// Turns the total of every task list into something that isn't a number.
+const corruptTaskLists: RequestInterceptor = async (intercepted, next) => {
+  const response = await next(intercepted);
+  return intercepted.request.api === TASK_API && response.success
+    ? { ...response, data: { ...(response.data as object), total: "lots" } }
+    : response;
+};
+
+describe("strictResponses", () => {
+  it("fails malformed responses without retrying them", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, {
+      strictResponses: true,
+      requestInterceptors: [corruptTaskLists],
+    });
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(isConnectionFailure(response));
+    assert.equal(response.type, "malformed-response");
+    assert.equal(requestsTo(fake, TASK_API, "list").length, 1);
+  });
+
+  it("passes malformed responses through when off", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { requestInterceptors: [corruptTaskLists] });
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(!isConnectionFailure(response) && response.success);
+    assert.equal(response.data.total, "lots");
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                               Interceptors                                //
+// ------------------------------------------------------------------------- //
+
+describe("interceptors", () => {
+  it("runs request interceptors outermost first", async () => {
+    const fake = new FakeDiskStation();
+    const order: string[] = [];
+    const record = (name: string): RequestInterceptor => async (intercepted, next) => {
+      order.push(`${name}:${intercepted.request.method}`);
+      return next(intercepted);
+    };
+    const client = createClient(fake, { requestInterceptors: [record("outer"), record("inner")] });
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.deepEqual(order.slice(-2), ["outer:list", "inner:list"]);
+  });
+
+  it("lets request interceptors change what's sent", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, {
+      requestInterceptors: [
+        (intercepted, next) =>
+          next({ ...intercepted, request: { ...intercepted.request, limit: 1 } }),
+      ],
+    });
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, TASK_API, "list")[0].params.limit, "1");
+  });
+
+  it("shows call interceptors each call once, however many times it's retried", async () => {
+    const fake = new FakeDiskStation();
+    const calls: ApiCall[] = [];
+    const client = createClient(fake, {
+      callInterceptors: [
+        (call, next) => {
+          calls.push(call);
+          return next({ ...call, options: { ...(call.options as object), offset: 5 } });
+        },
+      ],
+    });
+    const retries = collectEvents(client, "retry");
+    fake.injectError({ api: TASK_API, method: "list", code: 117 });
+
+    assertSuccess(await client.DownloadStation.Task.List({ offset: 0 }));
+    assert.equal(calls.length, 1);
+    assert.equal(retries[0].callId, calls[0].id);
+    assert.deepEqual(
+      requestsTo(fake, TASK_API, "list").map((r) => r.params.offset),
+      ["5", "5"],
+    );
+  });
+
+  it("turns errors thrown by call interceptors into failures", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, {
+      callInterceptors: [
+        () => {
+          throw new Error("nope");
+        },
+      ],
+    });
+
+    const response = await client.DownloadStation.Task.List();
+    assert.ok(isConnectionFailure(response));
+    assert.equal(response.type, "unknown");
+  });
+});
+
+// ------------------------------------------------------------------------- //
+//                                 Settings                                  //
+// ------------------------------------------------------------------------- //
+
+describe("updateSettings", () => {
+  const settings = {
+    baseUrl: "http://diskstation.test",
+    account: "admin",
+    passwd: "admin",
+    session: "DownloadStation" as const,
+  };
+
+  it("keeps the session when nothing it depends on changes", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake, { ...settings, retry: { maxAttempts: 1 } });
+    assertSuccess(await client.DownloadStation.Task.List());
+
+    assert.equal(
+      client.updateSettings({ ...settings, transport: fake, retry: { maxAttempts: 3 } }),
+      false,
+    );
+    fake.injectError({ api: TASK_API, method: "list", code: 117, times: 2 });
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "login").length, 1);
+    assert.equal(requestsTo(fake, "SYNO.API.Auth", "logout").length, 0);
+  });
+
+  it("logs the old session out of the old NAS", async () => {
+    const oldFake = new FakeDiskStation();
+    const newFake = new FakeDiskStation();
+    const client = createClient(oldFake, settings);
+    const logouts = collectEvents(client, "logout");
+    assertSuccess(await client.DownloadStation.Task.List());
+    const [sid] = oldFake.sids;
+
+    assert.equal(
+      client.updateSettings({ ...settings, baseUrl: "http://other.test", transport: newFake }),
+      true,
+    );
+    assertSuccess(await client.DownloadStation.Task.List());
+    await delay(10);
+    assert.equal(logouts.length, 1);
+    assert.equal(requestsTo(oldFake, "SYNO.API.Auth", "logout")[0].params._sid, sid);
+    assert.equal(requestsTo(newFake, "SYNO.API.Auth", "logout").length, 0);
+    assert.deepEqual(oldFake.sids, []);
+  });
+});
@@ -0,0 +1,70 @@
+import { strict as assert } from "assert";
+import { getEventListeners } from "events";
+import { describe, it } from "node:test";
+import {
+  CopyMoveJob,
+  FakeDiskStation,
+  FileStation,
+  RequestInterceptor,
+  startCopyMove,
+} from "../src";
+import { createClient, delay, requestsTo } from "./fixtures";
+
+const COPY_MOVE_API = FileStation.CopyMove.API_NAME;
+
+// The fake finishes copies instantly, so pretend they take forever.
+const neverFinish: RequestInterceptor = async (intercepted, next) => {
+  const response = await next(intercepted);
+  return intercepted.request.api === COPY_MOVE_API &&
+    intercepted.request.method === "status" &&
+    response.success
+    ? { ...response, data: { ...(response.data as object), finished: false } }
+    : response;
+};
+
+function createFileStation(interceptors: RequestInterceptor[] = []) {
+  const fake = new FakeDiskStation({
+    files: [
+      { path: "/video/movie.mkv", size: 1024 },
+      { path: "/backup", isdir: true },
+    ],
+  });
+  const client = createClient(fake, { session: "FileStation", requestInterceptors: interceptors });
+  return { fake, client };
+}
+
+describe("CopyMoveJob", () => {
+  it("cancels when its signal aborts, and stops listening once done", async () => {
+    const { fake, client } = createFileStation([neverFinish]);
+    const controller = new AbortController();
+    const job = await startCopyMove(
+      client,
+      { path: ["/video/movie.mkv"], dest_folder_path: "/backup", signal: controller.signal },
+      { pollInterval: 1 },
+    );
+    assert.ok(job instanceof CopyMoveJob);
+
+    for await (const status of job) {
+      assert.equal(status.finished, false);
+      break;
+    }
+    controller.abort();
+    assert.equal((await job.done).type, "cancelled");
+    await delay(10);
+    assert.equal(requestsTo(fake, COPY_MOVE_API, "stop").length, 1);
+    assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+  });
+
+  it("does nothing when cancelled after it's done", async () => {
+    const { fake, client } = createFileStation();
+    const job = await startCopyMove(client, {
+      path: ["/video/movie.mkv"],
+      dest_folder_path: "/backup",
+    });
+    assert.ok(job instanceof CopyMoveJob);
+
+    assert.equal((await job.done).type, "finished");
+    assert.equal(await job.cancel(), undefined);
+    assert.equal(requestsTo(fake, COPY_MOVE_API, "stop").length, 0);
+  });
+});
@@ -0,0 +1,92 @@
+import { strict as assert } from "assert";
+import { after, before, describe, it } from "node:test";
+import { FakeDiskStation, FileStationDownloadRequest, isConnectionFailure } from "../src";
+import { FakeDiskStationServer, createNodeTransport, serveFakeDiskStation } from "../src/node";
+import { createClient } from "./fixtures";
+
+const CONTENT = "0123456789";
+
+async function readStream(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text;
+    }
+    text += Buffer.from(value!).toString("utf8");
+  }
+}
+
+function createFake() {
+  return new FakeDiskStation({
+    files: [{ path: "/home/digits.txt", content: new Blob([CONTENT], { type: "text/plain" }) }],
+  });
+}
+
+describe("FileStation.Download", () => {
+  async function download(fake: FakeDiskStation, options: FileStationDownloadRequest) {
+    const client = createClient(fake, { session: "FileStation" });
+    const response = await client.FileStation.Download.download(options);
+    assert.ok(!isConnectionFailure(response), JSON.stringify(response));
+    return response;
+  }
+
+  it("downloads the whole file", async () => {
+    const response = await download(createFake(), { path: ["/home/digits.txt"] });
+    assert.ok(response.success);
+    assert.equal(response.data.contentLength, CONTENT.length);
+    assert.equal(response.data.contentRange, undefined);
+    assert.equal(await (await response.data.blob()).text(), CONTENT);
+  });
+
+  it("downloads ranges, to resume interrupted downloads", async () => {
+    const fake = createFake();
+    const middle = await download(fake, {
+      path: ["/home/digits.txt"],
+      range: { start: 2, end: 4 },
+    });
+    assert.ok(middle.success);
+    assert.deepEqual(middle.data.contentRange, { start: 2, end: 4, total: CONTENT.length });
+    assert.equal(await (await middle.data.blob()).text(), "234");
+
+    const rest = await download(fake, { path: ["/home/digits.txt"], range: { start: 7 } });
+    assert.ok(rest.success);
+    assert.deepEqual(rest.data.contentRange, { start: 7, end: 9, total: CONTENT.length });
+    assert.equal(await (await rest.data.blob()).text(), "789");
+  });
+
+  it("reports the NAS's JSON errors as failures", async () => {
+    const response = await download(createFake(), { path: ["/home/missing.txt"] });
+    assert.ok(!response.success);
+    assert.equal(response.error.code, 408);
+  });
+
+  describe("through the Node transport", () => {
+    const fake = createFake();
+    let server: FakeDiskStationServer;
+
+    before(async () => {
+      server = await serveFakeDiskStation(fake);
+    });
+
+    after(async () => {
+      await server.close();
+    });
+
+    it("streams ranges", async () => {
+      const client = createClient(fake, {
+        baseUrl: server.baseUrl,
+        session: "FileStation",
+        transport: createNodeTransport(),
+      });
+      const response = await client.FileStation.Download.download({
+        path: ["/home/digits.txt"],
+        range: { start: 5 },
+      });
+      assert.ok(!isConnectionFailure(response) && response.success, JSON.stringify(response));
+      assert.equal(response.data.contentLength, 5);
+      assert.equal(await readStream(response.data.body!), "56789");
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { DownloadStation2, FakeDiskStation, isConnectionFailure } from "../src";
+import { assertSuccess, createClient, requestsTo } from "./fixtures";
+
+const TORRENT_URL = "https://example.com/linux.torrent";
+
+describe("DownloadStation2", () => {
+  it("lists, gets, pauses, resumes, edits and deletes tasks", async () => {
+    const fake = new FakeDiskStation({ tasks: [{ title: "a.iso", status: "downloading" }] });
+    const [{ id }] = fake.getTasks();
+    const client = createClient(fake);
+
+    const list = await client.DownloadStation2.Task.List();
+    assert.ok(!isConnectionFailure(list) && list.success);
+    assert.equal(list.data.total, 1);
+    // Sent as a number, but named like in DownloadStation.
+    assert.equal(list.data.task[0].status, "downloading");
+
+    assertSuccess(await client.DownloadStation2.Task.Pause({ id: [id] }));
+    assert.equal(fake.getTasks()[0].status, "paused");
+    assertSuccess(await client.DownloadStation2.Task.Resume({ id: [id] }));
+    assert.equal(fake.getTasks()[0].status, "waiting");
+    assertSuccess(await client.DownloadStation2.Task.Edit({ id: [id], destination: "video" }));
+
+    const get = await client.DownloadStation2.Task.Get({ id: [id], additional: ["detail"] });
+    assert.ok(!isConnectionFailure(get) && get.success);
+    assert.equal(get.data.task[0].additional?.detail?.destination, "video");
+
+    const deleted = await client.DownloadStation2.Task.Delete({
+      id: [id, "dbid_999"],
+      force_complete: false,
+    });
+    assert.ok(!isConnectionFailure(deleted) && deleted.success);
+    assert.deepEqual(deleted.data.failed_task, [{ id: "dbid_999", error: 404 }]);
+    assert.equal(fake.getTasks().length, 0);
+  });
+
+  it("JSON-encodes every parameter", async () => {
+    const fake = new FakeDiskStation();
+    const client = createClient(fake);
+
+    assertSuccess(await client.DownloadStation2.Task.List({ offset: 0, sort_by: "title" }));
+    const { params } = requestsTo(fake, DownloadStation2.Task.API_NAME, "list")[0];
+    assert.equal(params.offset, "0");
+    assert.equal(params.sort_by, '"title"');
+  });
+
+  it("downloads only the files selected from a torrent's list", async () => {
+    const fake = new FakeDiskStation({
+      torrentFiles: [
+        { name: "linux.iso", size: 100 },
+        { name: "README", size: 1 },
+      ],
+    });
+    const client = createClient(fake);
+
+    const created = await client.DownloadStation2.Task.Create({
+      type: "url",
+      url: [TORRENT_URL],
+      create_list: true,
+    });
+    assert.ok(!isConnectionFailure(created) && created.success);
+    assert.equal(created.data.task_id.length, 0);
+    const [listId] = created.data.list_id;
+
+    const list = await client.DownloadStation2.TaskList.Get({ list_id: listId });
+    assert.ok(!isConnectionFailure(list) && list.success);
+    assert.deepEqual(
+      list.data.files.map((f) => [f.index, f.name]),
+      [
+        [0, "linux.iso"],
+        [1, "README"],
+      ],
+    );
+
+    const download = await client.DownloadStation2.TaskList.Download({
+      list_id: listId,
+      selected: [0],
+    });
+    assert.ok(!isConnectionFailure(download) && download.success);
+    const [task] = fake.getTasks();
+    assert.equal(task.id, download.data.task_id);
+    assert.deepEqual(
+      task.additional?.file?.map((f) => f.wanted),
+      [true, false],
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { Auth, DownloadStation, FileStation, Info, describeError } from "../src";
+
+function failure(code: number) {
+  return { success: false as const, error: { code } };
+}
+
+describe("describeError", () => {
+  it("reads codes relative to the API that produced them", () => {
+    assert.equal(describeError(Auth.API_NAME, failure(400)).kind, "bad-credentials");
+    assert.equal(
+      describeError(DownloadStation.Task.API_NAME, failure(400)).kind,
+      "file-upload-failed",
+    );
+    assert.equal(describeError(FileStation.List.API_NAME, failure(400)).kind, "invalid-parameter");
+  });
+
+  it("includes every FileStation API's own codes on top of the shared FileStation ones", () => {
+    assert.equal(describeError(FileStation.Upload.API_NAME, failure(1805)).kind, "conflict");
+    assert.equal(describeError(FileStation.Upload.API_NAME, failure(408)).kind, "no-such-file");
+    assert.equal(describeError(FileStation.List.API_NAME, failure(1805)).kind, "unrecognized");
+  });
+
+  it("falls back to the common codes for any API, cataloged or not", () => {
+    assert.deepEqual(describeError(FileStation.List.API_NAME, failure(106)), {
+      code: 106,
+      kind: "session-timeout",
+      message: "Session timeout",
+    });
+    assert.equal(describeError("SYNO.Not.Cataloged", failure(119)).kind, "invalid-session");
+  });
+
+  it("doesn't guess at codes the API doesn't document", () => {
+    assert.deepEqual(describeError(Info.API_NAME, failure(400)), {
+      code: 400,
+      kind: "unrecognized",
+      message: "Unrecognized error code 400",
+    });
+  });
+});
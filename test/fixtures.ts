@@ -0,0 +1,66 @@
+import { strict as assert } from "assert";
+import {
+  ApiClient,
+  ApiClientEvent,
+  ApiClientSettings,
+  ConnectionFailure,
+  FakeDiskStation,
+  RequestInterceptor,
+  SynologyResponse,
+  isConnectionFailure,
+} from "../src";
+
+// Short, so that tests that retry don't have to wait.
+const TEST_RETRY_DELAY = 1;
+
+export function createClient(fake: FakeDiskStation, settings: Partial<ApiClientSettings> = {}) {
+  return new ApiClient({
+    baseUrl: "http://diskstation.test",
+    account: "admin",
+    passwd: "admin",
+    session: "DownloadStation",
+    transport: fake,
+    retry: { initialDelay: TEST_RETRY_DELAY, maxDelay: TEST_RETRY_DELAY },
+    ...settings,
+  });
+}
+
+export function assertSuccess(response: SynologyResponse<unknown> | ConnectionFailure) {
+  assert.ok(!isConnectionFailure(response) && response.success, JSON.stringify(response));
+}
+
+export function collectEvents<T extends ApiClientEvent["type"]>(client: ApiClient, type: T) {
+  const events: Extract<ApiClientEvent, { type: T }>[] = [];
+  client.on(type, (e) => {
+    events.push(e);
+  });
+  return events;
+}
+
+export function requestsTo(fake: FakeDiskStation, api: string, method?: string) {
+  return fake.requests.filter((r) => r.api === api && (method == null || r.method === method));
+}
+
+// Holds every request to `api` until `release` is called, and records the order in which they
+// arrived by their `offset` parameter.
+export function createGate(api: string) {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const arrived: unknown[] = [];
+  const interceptor: RequestInterceptor = async (intercepted, next) => {
+    if (intercepted.request.api === api) {
+      arrived.push(intercepted.request.offset);
+      await released;
+    }
+    return next(intercepted);
+  };
+  return { interceptor, release, arrived };
+}
+
+export function delay(ms: number) {
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
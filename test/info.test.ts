@@ -0,0 +1,65 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { DownloadStation, FakeDiskStation, Info, negotiateApi } from "../src";
+import { assertSuccess, createClient, requestsTo } from "./fixtures";
+
+const TASK_API = DownloadStation.Task.API_NAME;
+
+describe("negotiateApi", () => {
+  const info = { [TASK_API]: { path: "DownloadStation/task.cgi", minVersion: 1, maxVersion: 3 } };
+
+  it("picks the highest version both sides understand", () => {
+    assert.deepEqual(negotiateApi(info, TASK_API, { minVersion: 1, maxVersion: 2 }), {
+      cgi: "DownloadStation/task",
+      version: 2,
+    });
+    assert.deepEqual(negotiateApi(info, TASK_API, { minVersion: 1, maxVersion: 5 }), {
+      cgi: "DownloadStation/task",
+      version: 3,
+    });
+  });
+
+  it("gives up on APIs the remote doesn't have or versions that don't overlap", () => {
+    assert.equal(negotiateApi(info, "SYNO.Nope", { minVersion: 1, maxVersion: 1 }), undefined);
+    assert.equal(negotiateApi(info, TASK_API, { minVersion: 4, maxVersion: 5 }), undefined);
+  });
+});
+
+describe("API discovery", () => {
+  it("asks SYNO.API.Info once and uses the paths it advertises", async () => {
+    const fake = new FakeDiskStation({
+      apiInfo: {
+        [TASK_API]: { path: "DownloadStation/elsewhere.cgi", minVersion: 1, maxVersion: 3 },
+      },
+    });
+    const client = createClient(fake);
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assertSuccess(await client.DownloadStation.Info.GetInfo());
+    assert.equal(requestsTo(fake, Info.API_NAME).length, 1);
+    assert.deepEqual(
+      requestsTo(fake, TASK_API, "list").map((r) => [r.cgi, r.version]),
+      [["DownloadStation/elsewhere", 1]],
+    );
+  });
+
+  it("fails calls to APIs the NAS doesn't have as unsupported-api", async () => {
+    const fake = new FakeDiskStation({ apiInfo: { [TASK_API]: undefined } });
+    const client = createClient(fake);
+
+    assert.deepEqual(await client.DownloadStation.Task.List(), {
+      type: "unsupported-api",
+      api: TASK_API,
+    });
+    assert.equal(requestsTo(fake, TASK_API).length, 0);
+  });
+
+  it("falls back to the default paths when SYNO.API.Info fails", async () => {
+    const fake = new FakeDiskStation();
+    fake.injectError({ api: Info.API_NAME, code: 100 });
+    const client = createClient(fake);
+
+    assertSuccess(await client.DownloadStation.Task.List());
+    assert.equal(requestsTo(fake, TASK_API, "list")[0].cgi, "DownloadStation/task");
+  });
+});
@@ -0,0 +1,110 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  Auth,
+  FakeDiskStation,
+  FileStation,
+  createRequestLogger,
+  logClientEvents,
+  redactRequest,
+} from "../src";
+import type { SynologyApiRequest } from "../src/rest/shared";
+import { createClient } from "./fixtures";
+
+const SECRET = "hunter2";
+
+describe("redactRequest", () => {
+  it("redacts anything credential-like", () => {
+    const request: SynologyApiRequest = {
+      api: "SYNO.Example",
+      version: 1,
+      method: "example",
+      passwd: SECRET,
+      password: SECRET,
+      unzip_password: SECRET,
+      extract_password: SECRET,
+      sid: SECRET,
+      _sid: SECRET,
+      otp_code: SECRET,
+      device_id: SECRET,
+      token: SECRET,
+      client_secret: SECRET,
+      name: "movie.mkv",
+    };
+    const redacted = redactRequest(request);
+    assert.ok(!JSON.stringify(redacted).includes(SECRET), JSON.stringify(redacted));
+    assert.equal(redacted.name, "movie.mkv");
+    assert.equal(redacted.passwd, "[redacted]");
+  });
+
+  it("redacts the calls inside compound requests", () => {
+    const redacted = redactRequest({
+      api: "SYNO.Entry.Request",
+      version: 1,
+      method: "request",
+      compound: JSON.stringify([
+        { api: "SYNO.DownloadStation.Task", method: "create", unzip_password: SECRET },
+      ]),
+    });
+    assert.ok(!JSON.stringify(redacted).includes(SECRET), JSON.stringify(redacted));
+    assert.deepEqual(redacted.compound, [
+      { api: "SYNO.DownloadStation.Task", method: "create", unzip_password: "[redacted]" },
+    ]);
+  });
+
+  it("leaves out local options and shows files by name", () => {
+    const redacted = redactRequest({
+      api: "SYNO.FileStation.Upload",
+      version: 2,
+      method: "upload",
+      timeout: 1000,
+      signal: new AbortController().signal,
+      file: { content: new Blob([SECRET]), filename: "notes.txt" },
+    });
+    assert.deepEqual(redacted, {
+      api: "SYNO.FileStation.Upload",
+      version: 2,
+      method: "upload",
+      file: "<file notes.txt>",
+    });
+  });
+});
+
+describe("logClientEvents", () => {
+  it("never logs the password or session ID", async () => {
+    const fake = new FakeDiskStation({ accounts: { admin: SECRET } });
+    const client = createClient(fake, { passwd: SECRET, session: "FileStation" });
+    const lines: string[] = [];
+    const stop = logClientEvents(client, { log: (line) => lines.push(line) });
+
+    await client.FileStation.List.list_share();
+    fake.expireSessions();
+    await client.FileStation.List.list_share();
+    await client.Auth.Logout();
+    stop();
+
+    assert.ok(lines.some((l) => l.includes(Auth.API_NAME)));
+    assert.ok(lines.some((l) => l.includes(FileStation.List.API_NAME)));
+    const secrets = [SECRET, ...fake.sids];
+    lines.forEach((line) => {
+      secrets.forEach((secret) => {
+        assert.ok(!line.includes(secret), line);
+      });
+    });
+  });
+});
+
+describe("createRequestLogger", () => {
+  it("never logs the password", async () => {
+    const fake = new FakeDiskStation({ accounts: { admin: SECRET } });
+    const lines: string[] = [];
+    await Auth.Login(
+      "http://diskstation.test",
+      { account: "admin", passwd: SECRET, session: "FileStation" },
+      { transport: fake, interceptors: [createRequestLogger({ log: (l) => lines.push(l) })] },
+    );
+
+    assert.equal(lines.length, 2);
+    assert.ok(lines.every((l) => !l.includes(SECRET)));
+  });
+});
@@ -0,0 +1,107 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import {
+  DownloadStation,
+  FakeDiskStation,
+  FileStation,
+  RequestInterceptor,
+  SynologyFailureError,
+  iterateFolder,
+  iterateShares,
+  iterateTasks,
+} from "../src";
+import { createClient, requestsTo } from "./fixtures";
+
+const TASK_API = DownloadStation.Task.API_NAME;
+const LIST_API = FileStation.List.API_NAME;
+
+async function collect<T>(iterator: AsyncIterable<T>) {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+function createFake() {
+  return new FakeDiskStation({
+    tasks: ["a", "b", "c", "d", "e"].map((title) => ({ title })),
+    files: [{ path: "/video/a.mkv" }, { path: "/video/b.mkv" }, { path: "/music", isdir: true }],
+  });
+}
+
+// Claims there are far more files than there are.
+const inflateTotals: RequestInterceptor = async (intercepted, next) => {
+  const response = await next(intercepted);
+  return intercepted.request.api === LIST_API && response.success
+    ? { ...response, data: { ...(response.data as object), total: 100 } }
+    : response;
+};
+
+describe("iterateTasks", () => {
+  it("pages through every task", async () => {
+    const fake = createFake();
+    const client = createClient(fake);
+
+    const tasks = await collect(iterateTasks(client, {}, { pageSize: 2 }));
+    assert.deepEqual(
+      tasks.map((t) => t.title),
+      ["a", "b", "c", "d", "e"],
+    );
+    assert.deepEqual(
+      requestsTo(fake, TASK_API, "list").map((r) => r.params.offset),
+      ["0", "2", "4"],
+    );
+  });
+
+  it("throws failures after yielding what came before", async () => {
+    const fake = createFake();
+    const client = createClient(fake);
+    const titles: string[] = [];
+
+    await assert.rejects(async () => {
+      for await (const task of iterateTasks(client, {}, { pageSize: 2 })) {
+        titles.push(task.title);
+        fake.injectError({ api: TASK_API, method: "list", code: 401, times: 1 });
+      }
+    }, SynologyFailureError);
+    assert.deepEqual(titles, ["a", "b"]);
+  });
+
+  it("rejects page sizes below 1 right away", () => {
+    const client = createClient(createFake());
+    assert.throws(() => iterateTasks(client, {}, { pageSize: 0 }), /pageSize/);
+    assert.throws(() => iterateTasks(client, {}, { pageSize: NaN }), /pageSize/);
+  });
+});
+
+describe("iterateFolder", () => {
+  it("stops at an empty page, whatever the total says", async () => {
+    const fake = createFake();
+    const client = createClient(fake, {
+      session: "FileStation",
+      requestInterceptors: [inflateTotals],
+    });
+
+    const files = await collect(iterateFolder(client, { folder_path: "/video" }, { pageSize: 2 }));
+    assert.deepEqual(
+      files.map((f) => f.name),
+      ["a.mkv", "b.mkv"],
+    );
+    assert.equal(requestsTo(fake, LIST_API, "list").length, 2);
+  });
+});
+
+describe("iterateShares", () => {
+  it("stops at the total", async () => {
+    const fake = createFake();
+    const client = createClient(fake, { session: "FileStation" });
+
+    const shares = await collect(iterateShares(client, {}, { pageSize: 1 }));
+    assert.deepEqual(
+      shares.map((s) => s.name),
+      ["music", "video"],
+    );
+    assert.equal(requestsTo(fake, LIST_API, "list_share").length, 2);
+  });
+});
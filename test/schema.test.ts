@@ -0,0 +1,60 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { Schema, SchemaIssue } from "../src";
+
+interface Example {
+  id: string;
+  size: number;
+  done: boolean;
+  note?: string;
+  tags: string[];
+}
+
+const EXAMPLE_SCHEMA = Schema.object<Example>({
+  id: Schema.string(),
+  size: Schema.number(),
+  done: Schema.boolean(),
+  note: Schema.optional(Schema.string()),
+  tags: Schema.withDefault(Schema.array(Schema.string()), () => []),
+});
+
+function parse(value: unknown) {
+  const issues: SchemaIssue[] = [];
+  return { value: EXAMPLE_SCHEMA.parse(value, "", issues), issues };
+}
+
+describe("Schema", () => {
+  it("coerces the stringly-typed values DSM sends", () => {
+    assert.deepEqual(parse({ id: 12, size: "1024", done: "true" }), {
+      value: { id: "12", size: 1024, done: true, tags: [] },
+      issues: [],
+    });
+  });
+
+  it("reports values that can't be coerced, by path", () => {
+    const { issues } = parse({ id: "a", size: "lots", done: false, tags: ["x", {}] });
+    assert.deepEqual(issues, [
+      { path: "size", expected: "number", received: '"lots"' },
+      { path: "tags[1]", expected: "string", received: "{}" },
+    ]);
+  });
+
+  it("treats null like a missing optional property", () => {
+    const { value, issues } = parse({ id: "a", size: 1, done: false, note: null });
+    assert.deepEqual(issues, []);
+    assert.ok(!("note" in value));
+  });
+
+  it("still requires non-optional properties", () => {
+    const { issues } = parse({ id: "a", size: null, done: false });
+    assert.deepEqual(
+      issues.map((i) => i.path),
+      ["size"],
+    );
+  });
+
+  it("keeps properties it doesn't know about", () => {
+    const { value } = parse({ id: "a", size: 1, done: false, added_in_dsm_8: 1 });
+    assert.equal((value as Example & { added_in_dsm_8?: number }).added_in_dsm_8, 1);
+  });
+});
@@ -0,0 +1,69 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { FakeDiskStation, FileStation, SynologyFailureError, searchFiles } from "../src";
+import { createClient, requestsTo } from "./fixtures";
+
+const SEARCH_API = FileStation.Search.API_NAME;
+
+function names(count: number, prefix: string) {
+  return Array.from({ length: count }, (_, i) => `${prefix}${String(i).padStart(2, "0")}.mkv`);
+}
+
+function createFake(files: string[]) {
+  return new FakeDiskStation({
+    files: [{ path: "/video", isdir: true }, ...files.map((f) => ({ path: `/video/${f}` }))],
+  });
+}
+
+async function collect(iterator: AsyncIterable<{ name: string }>) {
+  const found: string[] = [];
+  for await (const file of iterator) {
+    found.push(file.name);
+  }
+  return found;
+}
+
+describe("searchFiles", () => {
+  it("yields every result once, even when later ones sort before earlier ones", async () => {
+    // The fake finds ten results per poll, in this order, but lists them sorted by name.
+    const later = names(5, "a");
+    const earlier = names(10, "z");
+    const fake = createFake([...earlier, ...later]);
+    const client = createClient(fake, { session: "FileStation" });
+
+    const found = await collect(
+      searchFiles(client, { folder_path: ["/video"] }, { pollInterval: 1 }),
+    );
+    assert.deepEqual(found.sort(), [...later, ...earlier]);
+    assert.ok(requestsTo(fake, SEARCH_API, "list").length > 1);
+  });
+
+  it("passes filters through", async () => {
+    const fake = createFake(["movie.mkv", "movie.srt", "other.mkv"]);
+    const client = createClient(fake, { session: "FileStation" });
+
+    const found = await collect(
+      searchFiles(client, { folder_path: ["/video"], pattern: "movie", extension: "mkv" }),
+    );
+    assert.deepEqual(found, ["movie.mkv"]);
+  });
+
+  it("stops and cleans up the search when the consumer breaks out early", async () => {
+    const fake = createFake(names(15, "a"));
+    const client = createClient(fake, { session: "FileStation" });
+
+    for await (const _file of searchFiles(client, { folder_path: ["/video"] })) {
+      break;
+    }
+    assert.equal(requestsTo(fake, SEARCH_API, "stop").length, 1);
+    assert.equal(requestsTo(fake, SEARCH_API, "clean").length, 1);
+  });
+
+  it("throws failures as SynologyFailureError", async () => {
+    const client = createClient(createFake([]), { session: "FileStation" });
+    await assert.rejects(
+      collect(searchFiles(client, { folder_path: ["/nope"] })),
+      (e) => e instanceof SynologyFailureError,
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { FakeDiskStation, setTaskFiles } from "../src";
+import { createClient } from "./fixtures";
+
+function createTorrentTask() {
+  const fake = new FakeDiskStation();
+  const task = fake.addTask({
+    title: "linux",
+    type: "bt",
+    additional: {
+      file: ["linux.iso", "README", "extras.zip"].map((filename, index) => ({
+        filename,
+        index,
+        priority: "normal",
+        size: 1,
+        size_downloaded: 0,
+        wanted: true,
+      })),
+    },
+  });
+  return { client: createClient(fake), id: task.id };
+}
+
+describe("setTaskFiles", () => {
+  it("changes the given files and reads back what the NAS did", async () => {
+    const { client, id } = createTorrentTask();
+
+    const files = await setTaskFiles(client, { task_id: id, index: [0], priority: "high" });
+    assert.ok(Array.isArray(files));
+    assert.deepEqual(
+      files.map((f) => [f.priority, f.wanted]),
+      [
+        ["high", true],
+        ["normal", true],
+        ["normal", true],
+      ],
+    );
+  });
+
+  it("keeps priority and wanted consistent", async () => {
+    const { client, id } = createTorrentTask();
+
+    await setTaskFiles(client, { task_id: id, index: [1], priority: "skip" });
+    const files = await setTaskFiles(client, { task_id: id, index: [2], wanted: false });
+    assert.ok(Array.isArray(files));
+    assert.deepEqual(
+      files.map((f) => [f.priority, f.wanted]),
+      [
+        ["normal", true],
+        ["skip", false],
+        ["skip", false],
+      ],
+    );
+  });
+
+  it("returns failures as they are", async () => {
+    const { client, id } = createTorrentTask();
+
+    const response = await setTaskFiles(client, { task_id: id, index: [9], wanted: true });
+    assert.ok(!Array.isArray(response) && "success" in response && !response.success);
+    assert.equal(response.error.code, 101);
+  });
+});
@@ -0,0 +1,57 @@
+import { strict as assert } from "assert";
+import { getEventListeners } from "events";
+import { describe, it } from "node:test";
+import { FakeDiskStation, TaskWatcher } from "../src";
+import { createClient, delay, requestsTo } from "./fixtures";
+
+describe("TaskWatcher", () => {
+  it("reports tasks added after the first poll", async () => {
+    const fake = new FakeDiskStation({ tasks: [{ title: "old.iso" }] });
+    const watcher = new TaskWatcher(createClient(fake), { activeInterval: 1, idleInterval: 1 });
+    const added: string[] = [];
+    watcher.on("task-added", ({ task }) => {
+      added.push(task.title);
+    });
+
+    watcher.start();
+    await delay(20);
+    fake.addTask({ title: "new.iso" });
+    await delay(20);
+    watcher.stop();
+    assert.deepEqual(added, ["new.iso"]);
+  });
+
+  it("stops for good when its signal aborts", async () => {
+    const fake = new FakeDiskStation();
+    const controller = new AbortController();
+    const watcher = new TaskWatcher(createClient(fake), {
+      activeInterval: 1,
+      idleInterval: 1,
+      signal: controller.signal,
+    });
+
+    watcher.start();
+    await delay(10);
+    controller.abort();
+    assert.equal(watcher.running, false);
+    const polls = requestsTo(fake, "SYNO.DownloadStation.Task", "list").length;
+    await delay(10);
+    assert.equal(requestsTo(fake, "SYNO.DownloadStation.Task", "list").length, polls);
+
+    watcher.start();
+    assert.equal(watcher.running, false);
+  });
+
+  it("stops listening to its signal when stopped", async () => {
+    const controller = new AbortController();
+    const watcher = new TaskWatcher(createClient(new FakeDiskStation()), {
+      signal: controller.signal,
+    });
+
+    watcher.start();
+    watcher.stop();
+    // Let the poll that was already in flight finish.
+    await delay(10);
+    assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+  });
+});
@@ -0,0 +1,58 @@
+import { strict as assert } from "assert";
+import { getEventListeners } from "events";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { fetchTransport } from "../src";
+
+// Just enough of XMLHttpRequest for fetchTransport, answering every request with an empty object.
+class StubXMLHttpRequest {
+  public upload: { onprogress?: (e: ProgressEvent) => void } = {};
+  public status = 0;
+  public response: Blob | undefined;
+  public onload?: () => void;
+  public onabort?: () => void;
+
+  public open() {}
+  public setRequestHeader() {}
+  public getResponseHeader() {
+    return null;
+  }
+  public abort() {
+    this.onabort?.();
+  }
+  public send() {
+    setTimeout(() => {
+      this.status = 200;
+      this.response = new Blob(["{}"]);
+      this.onload?.();
+    });
+  }
+}
+
+describe("fetchTransport with upload progress", () => {
+  const globals = globalThis as { XMLHttpRequest?: unknown };
+  const original = globals.XMLHttpRequest;
+
+  beforeEach(() => {
+    globals.XMLHttpRequest = StubXMLHttpRequest;
+  });
+
+  afterEach(() => {
+    globals.XMLHttpRequest = original;
+  });
+
+  it("stops listening to the signal once the request is done", async () => {
+    const controller = new AbortController();
+    for (let i = 0; i < 3; ++i) {
+      const response = await fetchTransport.request({
+        method: "POST",
+        url: "http://diskstation.test/webapi/entry.cgi",
+        body: [],
+        timeout: 1000,
+        signal: controller.signal,
+        onUploadProgress: () => {},
+      });
+      assert.equal(response.status, 200);
+    }
+    assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+  });
+});
@@ -0,0 +1,118 @@
+import { strict as assert } from "assert";
+import { after, before, describe, it } from "node:test";
+import {
+  FakeDiskStation,
+  FileStation,
+  FormFile,
+  TimeoutError,
+  UploadProgress,
+  isConnectionFailure,
+} from "../src";
+import { FakeDiskStationServer, createNodeTransport, serveFakeDiskStation } from "../src/node";
+import { assertSuccess, createClient, requestsTo } from "./fixtures";
+
+const UPLOAD_API = FileStation.Upload.API_NAME;
+
+// A file that takes `interval` milliseconds to read each of its `chunks`, or forever after
+// `stallAfter` of them.
+function slowFile(chunks: number, interval: number, stallAfter = Infinity): FormFile {
+  const chunk = new Uint8Array(1024).fill(120);
+  let sent = 0;
+  const content = {
+    size: chunks * chunk.length,
+    type: "",
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        pull: async (controller) => {
+          if (sent >= stallAfter) {
+            await new Promise(() => {});
+          }
+          await new Promise((resolve) => setTimeout(resolve, interval));
+          controller.enqueue(chunk);
+          if (++sent === chunks) {
+            controller.close();
+          }
+        },
+      }),
+  };
+  return { content: content as Blob, filename: "slow.bin" };
+}
+
+describe("FileStation.Upload", () => {
+  it("uploads into the folder, honoring overwrite", async () => {
+    const fake = new FakeDiskStation({ files: [{ path: "/home", isdir: true }] });
+    const client = createClient(fake, { session: "FileStation" });
+    const upload = (overwrite?: boolean) =>
+      client.FileStation.Upload.upload({
+        path: "/home",
+        file: { content: new Blob(["hello"]), filename: "hello.txt" },
+        create_parents: false,
+        overwrite,
+      });
+
+    assertSuccess(await upload());
+    const skipped = await upload(false);
+    assert.ok(!isConnectionFailure(skipped) && skipped.success);
+    assert.equal(skipped.data.blSkip, true);
+    const refused = await upload();
+    assert.ok(!isConnectionFailure(refused) && !refused.success);
+    assert.equal(refused.error.code, 1805);
+
+    const files = await client.FileStation.List.list({ folder_path: "/home" });
+    assert.ok(!isConnectionFailure(files) && files.success);
+    assert.deepEqual(
+      files.data.files.map((f) => f.path),
+      ["/home/hello.txt"],
+    );
+  });
+
+  describe("through the Node transport", () => {
+    const fake = new FakeDiskStation({ files: [{ path: "/home", isdir: true }] });
+    let server: FakeDiskStationServer;
+
+    before(async () => {
+      server = await serveFakeDiskStation(fake);
+    });
+
+    after(async () => {
+      await server.close();
+    });
+
+    function upload(file: FormFile, timeout: number, progress: UploadProgress[] = []) {
+      return FileStation.Upload.upload(
+        server.baseUrl,
+        "",
+        {
+          path: "/home",
+          file,
+          create_parents: false,
+          overwrite: true,
+          timeout,
+          onUploadProgress: (p) => progress.push(p),
+        },
+        { transport: createNodeTransport() },
+      );
+    }
+
+    it("sends the whole file and reports progress", async () => {
+      const content = new Uint8Array(1024 * 1024).map((_, i) => i % 251);
+      const progress: UploadProgress[] = [];
+      // Not logged in, so the NAS refuses it, but only after it's all been sent.
+      await upload({ content: new Blob([content]), filename: "big.bin" }, 10000, progress);
+
+      const received = requestsTo(fake, UPLOAD_API).pop()!.params.file as FormFile;
+      assert.deepEqual(new Uint8Array(await received.content.arrayBuffer()), content);
+      assert.ok(progress.length > 1);
+      const last = progress[progress.length - 1];
+      assert.equal(last.loaded, last.total);
+    });
+
+    it("only times out when the upload stops making progress", async () => {
+      await upload(slowFile(5, 20), 60);
+      assert.equal(requestsTo(fake, UPLOAD_API).length, 2);
+
+      await assert.rejects(upload(slowFile(5, 20, 2), 60), TimeoutError);
+      assert.equal(requestsTo(fake, UPLOAD_API).length, 2);
+    });
+  });
+});